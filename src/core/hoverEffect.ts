@@ -7,10 +7,12 @@
  * - Initialize once in your setup/mounted hook.
  * - Call `updateHighlightNames` to filter which objects are interactive.
  * - Automatically handles mousemove throttling and cleanup on dispose.
+ * - Parts of merged meshes (`mergeGeometries: 'preserveParts'`) and instances (`instancing`) are hovered and outlined individually.
  */
 
 import * as THREE from 'three'
 import { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass'
+import { resolvePickedObject } from './mergedParts'
 
 /**
  * Configuration options for the hover breathing effect.
@@ -197,7 +199,8 @@ export function enableHoverBreath(opts: HoverBreathOptions) {
     const intersects = raycaster.intersectObjects(targets, true)
 
     if (intersects.length > 0) {
-      const obj = intersects[0].object
+      // Merged / instanced meshes resolve to the proxy of the original part (outlines only that part)
+      const obj = resolvePickedObject(intersects[0]).object
       // Determine if it is allowed to be highlighted
       const allowed = highlightSet === null ? true : highlightSet.has(obj.name)
       if (allowed) {
@@ -4,3 +4,6 @@ export * from './hoverEffect'
 export * from './postProcessing'
 export * from './objectPool'
 export * from './resourceManager'
+export * from './mergedParts'
+export * from './materialOverrides'
+export * from './pointCloud'
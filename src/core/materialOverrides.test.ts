@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { applyMaterialOverrides, createMaterialLibrary, hasMaterialOverride, revertMaterialOverrides } from './materialOverrides'
+
+/** 'body' node with two primitives, plus a 'window' mesh */
+function car(): THREE.Group {
+    const root = new THREE.Group()
+    const body = new THREE.Group()
+    body.name = 'body'
+    const paint = new THREE.MeshStandardMaterial({ name: 'paint' })
+    body.add(new THREE.Mesh(new THREE.BoxGeometry(), paint), new THREE.Mesh(new THREE.BoxGeometry(), paint))
+    const pane = new THREE.Mesh(new THREE.PlaneGeometry(), new THREE.MeshBasicMaterial({ name: 'window' }))
+    pane.name = 'window'
+    root.add(body, pane)
+    return root
+}
+
+const names = (root: THREE.Object3D) => {
+    const list: string[] = []
+    root.traverse((child) => {
+        if ((child as THREE.Mesh).isMesh) list.push(((child as THREE.Mesh).material as THREE.Material).name)
+    })
+    return list
+}
+
+describe('materialOverrides', () => {
+    it('should swap materials per part name from a library', () => {
+        const root = car()
+        const library = createMaterialLibrary()
+
+        expect(applyMaterialOverrides(root, { body: 'metal', window: 'glass' }, library)).toBe(3)
+        expect(names(root)).toEqual(['metal', 'metal', 'glass'])
+        expect(library.glass).toBeInstanceOf(THREE.MeshPhysicalMaterial)
+    })
+
+    it('should revert all or selected parts to the original materials', () => {
+        const root = car()
+        const library = createMaterialLibrary()
+        applyMaterialOverrides(root, { body: 'metal', window: 'glass' }, library)
+        applyMaterialOverrides(root, { body: 'painted' }, library)
+
+        expect(revertMaterialOverrides(root, ['window'])).toBe(1)
+        expect(names(root)).toEqual(['painted', 'painted', 'window'])
+        expect(revertMaterialOverrides(root)).toBe(2)
+        expect(names(root)).toEqual(['paint', 'paint', 'window'])
+        expect(hasMaterialOverride(root.getObjectByName('window') as THREE.Mesh)).toBe(false)
+    })
+
+    it('should reject unknown library keys', () => {
+        expect(() => applyMaterialOverrides(car(), { body: 'gold' }, createMaterialLibrary()))
+            .toThrow('Material not found in library: gold')
+    })
+})
@@ -0,0 +1,106 @@
+/**
+ * @file materialOverrides.ts
+ * @description
+ * Runtime material swaps per part name from a material library (metal, glass, painted...), with revert.
+ *
+ * @best-practice
+ * - Build the library once (`createMaterialLibrary`) and reuse it across models; its materials are shared, never disposed here.
+ * - A part name matches the mesh itself or any of its ancestors within the given object, so GLTF nodes with several primitives swap as one part.
+ * - `revertMaterialOverrides` restores the materials the meshes had before the first override.
+ * - Material variants (`applyVariant`) change the base material under an override, so reverting shows the active variant.
+ */
+
+import * as THREE from 'three'
+
+/** Named materials to pick overrides from */
+export type MaterialLibrary = Record<string, THREE.Material>
+
+/** Part name -> library key or material */
+export type MaterialOverrides = Record<string, string | THREE.Material>
+
+type MeshMaterial = THREE.Material | THREE.Material[]
+
+/** Materials replaced by an override, per mesh */
+const originals = new WeakMap<THREE.Mesh, MeshMaterial>()
+
+/**
+ * Preset library: metal, chrome, glass, painted, rubber, plastic; `extra` entries are added or replace presets
+ */
+export function createMaterialLibrary(extra: MaterialLibrary = {}): MaterialLibrary {
+  return {
+    metal: new THREE.MeshStandardMaterial({ name: 'metal', color: 0xb8b8b8, metalness: 1, roughness: 0.35 }),
+    chrome: new THREE.MeshStandardMaterial({ name: 'chrome', color: 0xffffff, metalness: 1, roughness: 0.05 }),
+    glass: new THREE.MeshPhysicalMaterial({ name: 'glass', color: 0xffffff, metalness: 0, roughness: 0.05, transmission: 1, thickness: 0.01, transparent: true }),
+    painted: new THREE.MeshStandardMaterial({ name: 'painted', color: 0x2d5da8, metalness: 0.1, roughness: 0.45 }),
+    rubber: new THREE.MeshStandardMaterial({ name: 'rubber', color: 0x1a1a1a, metalness: 0, roughness: 0.9 }),
+    plastic: new THREE.MeshStandardMaterial({ name: 'plastic', color: 0xe0e0e0, metalness: 0, roughness: 0.6 }),
+    ...extra,
+  }
+}
+
+/**
+ * Swap the materials of named parts
+ * @param object Model (or scene) to search
+ * @param overrides Part name -> library key or material
+ * @param library Library resolving string entries
+ * @returns Number of meshes whose material changed
+ */
+export function applyMaterialOverrides(object: THREE.Object3D, overrides: MaterialOverrides, library: MaterialLibrary = {}): number {
+  const resolved = new Map<string, THREE.Material>()
+  Object.entries(overrides).forEach(([part, entry]) => {
+    const material = typeof entry === 'string' ? library[entry] : entry
+    if (!material) throw new Error(`Material not found in library: ${entry} (available: ${Object.keys(library).join(', ') || 'none'})`)
+    resolved.set(part, material)
+  })
+
+  let changed = 0
+  forEachPartMesh(object, (mesh, names) => {
+    const part = names.find((name) => resolved.has(name))
+    if (part === undefined) return
+    if (!originals.has(mesh)) originals.set(mesh, mesh.material)
+    mesh.material = resolved.get(part)!
+    changed++
+  })
+  return changed
+}
+
+/**
+ * Restore the materials of overridden meshes
+ * @param partNames Only revert these parts (default: all)
+ * @returns Number of meshes restored
+ */
+export function revertMaterialOverrides(object: THREE.Object3D, partNames?: string[]): number {
+  const only = partNames ? new Set(partNames) : null
+  let restored = 0
+  forEachPartMesh(object, (mesh, names) => {
+    const original = originals.get(mesh)
+    if (!original || (only && !names.some((name) => only.has(name)))) return
+    mesh.material = original
+    originals.delete(mesh)
+    restored++
+  })
+  return restored
+}
+
+/** Whether the mesh currently shows an override */
+export function hasMaterialOverride(mesh: THREE.Mesh): boolean {
+  return originals.has(mesh)
+}
+
+/**
+ * Set the material a mesh shows without overrides: assigned directly, or kept for revert when overridden
+ */
+export function setBaseMaterial(mesh: THREE.Mesh, material: MeshMaterial) {
+  if (originals.has(mesh)) originals.set(mesh, material)
+  else mesh.material = material
+}
+
+/** Visit meshes of `root` with the names of the mesh and its ancestors up to `root` */
+function forEachPartMesh(root: THREE.Object3D, visit: (mesh: THREE.Mesh, names: string[]) => void) {
+  const walk = (object: THREE.Object3D, names: string[]) => {
+    const path = object.name ? [object.name, ...names] : names
+    if ((object as THREE.Mesh).isMesh) visit(object as THREE.Mesh, path)
+    object.children.forEach((child) => walk(child, path))
+  }
+  walk(root, [])
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterAll } from 'vitest'
+import * as THREE from 'three'
+import { loadModelFromData } from '../loader/modelLoader'
+import { registerModelFormat, unregisterModelFormat } from '../loader/formatRegistry'
+import { getInstanceParts, getMergedParts, getPartProxy, resolvePickedObject } from './mergedParts'
+
+/** Three boxes sharing one material, spread along X */
+registerModelFormat('parts', () => () => {
+    const root = new THREE.Group()
+    const material = new THREE.MeshStandardMaterial()
+    ;['valve', 'pipe', 'pump'].forEach((name, i) => {
+        const mesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material)
+        mesh.name = name
+        mesh.userData.tag = `P-${i}`
+        mesh.position.x = i * 3
+        root.add(mesh)
+    })
+    return root
+})
+
+/** Same box repeated three times, for instancing */
+registerModelFormat('repeated', () => () => {
+    const root = new THREE.Group()
+    const material = new THREE.MeshStandardMaterial()
+    ;['bolt-a', 'bolt-b', 'bolt-c'].forEach((name, i) => {
+        const mesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material)
+        mesh.name = name
+        mesh.userData.tag = `B-${i}`
+        mesh.position.x = i * 3
+        root.add(mesh)
+    })
+    return root
+})
+
+afterAll(() => {
+    unregisterModelFormat('parts')
+    unregisterModelFormat('repeated')
+})
+
+async function loadMerged(): Promise<THREE.Mesh> {
+    const model = await loadModelFromData(new ArrayBuffer(1), { format: 'parts', mergeGeometries: 'preserveParts' })
+    model.updateMatrixWorld(true)
+    const merged = model.children.find((c) => getMergedParts(c).length > 0) as THREE.Mesh
+    expect(merged).toBeDefined()
+    return merged
+}
+
+describe('mergedParts', () => {
+    it('should keep a range per original mesh when merging', async () => {
+        const merged = await loadMerged()
+        const parts = getMergedParts(merged)
+
+        expect(parts.map((p) => p.name)).toEqual(['valve', 'pipe', 'pump'])
+        expect(parts[1].userData.tag).toBe('P-1')
+        expect(parts[1].start).toBe(parts[0].start + parts[0].count)
+        expect(parts[2].center[0]).toBeCloseTo(6)
+    })
+
+    it('should resolve a raycast hit to the logical part', async () => {
+        const merged = await loadMerged()
+        const raycaster = new THREE.Raycaster(new THREE.Vector3(3, 0, 10), new THREE.Vector3(0, 0, -1))
+        const [hit] = raycaster.intersectObject(merged, false)
+
+        const { object, part } = resolvePickedObject(hit)
+        expect(part?.name).toBe('pipe')
+        expect(object.name).toBe('pipe')
+        expect(object.userData.tag).toBe('P-1')
+    })
+
+    it('should give each part a stable proxy drawing only its range', async () => {
+        const merged = await loadMerged()
+        const part = getMergedParts(merged)[2]
+        const proxy = getPartProxy(merged, part)
+
+        expect(getPartProxy(merged, part)).toBe(proxy)
+        expect(proxy.parent).toBe(merged)
+        expect(proxy.geometry.drawRange).toEqual({ start: part.start, count: part.count })
+        expect(proxy.geometry.index).toBe(merged.geometry.index)
+        // proxies never intercept picking
+        const raycaster = new THREE.Raycaster(new THREE.Vector3(6, 0, 10), new THREE.Vector3(0, 0, -1))
+        expect(raycaster.intersectObject(merged, true).every((h) => h.object === merged)).toBe(true)
+    })
+
+    it('should resolve an instanceId hit to the original part', async () => {
+        const model = await loadModelFromData(new ArrayBuffer(1), { format: 'repeated', instancing: true })
+        model.updateMatrixWorld(true)
+        const instanced = model.children.find((c) => getInstanceParts(c).length > 0) as THREE.InstancedMesh
+        expect(instanced.isInstancedMesh).toBe(true)
+
+        const raycaster = new THREE.Raycaster(new THREE.Vector3(6, 0, 10), new THREE.Vector3(0, 0, -1))
+        const [hit] = raycaster.intersectObject(model, true)
+        expect(hit.instanceId).toBe(2)
+
+        const { object, part } = resolvePickedObject(hit)
+        expect(part?.name).toBe('bolt-c')
+        expect(object.name).toBe('bolt-c')
+        expect(object.userData.tag).toBe('B-2')
+        expect(object.getWorldPosition(new THREE.Vector3()).x).toBeCloseTo(6)
+    })
+})
@@ -0,0 +1,130 @@
+/**
+ * @file mergedParts.ts
+ * @description
+ * Part maps for merged and instanced meshes: each merged mesh keeps the index/vertex range of every
+ * original part, each InstancedMesh the original part of every instance (name, uuid, userData),
+ * so picking and highlighting still work per logical part.
+ *
+ * @best-practice
+ * - Load with `mergeGeometries: 'preserveParts'` or `instancing: true` to get meshes with a part map.
+ * - Use `resolvePickedPart(intersection)` on raycast hits; click/hover tools already do.
+ * - Highlight a part with its proxy (`getPartProxy`): it draws only the part's range, e.g. for OutlinePass.
+ * - Proxies share the merged buffers: never dispose a proxy's geometry.
+ */
+
+import * as THREE from 'three'
+
+/** Original mesh behind a merged range or an instance */
+export interface PickedPart {
+  name: string
+  uuid: string
+  userData: Record<string, any>
+  /** Bounding box center of the part in the merged / instanced mesh's space */
+  center: [number, number, number]
+}
+
+/** One original mesh inside a merged mesh */
+export interface MergedPart extends PickedPart {
+  /** First index (indexed geometry) or vertex (non-indexed) of the part, in drawRange units */
+  start: number
+  /** Number of indices / vertices of the part, in drawRange units */
+  count: number
+  /** First vertex of the part in the merged attributes */
+  vertexStart: number
+  vertexCount: number
+}
+
+/** One original mesh turned into an instance of an InstancedMesh */
+export interface InstancePart extends PickedPart {
+  instanceId: number
+}
+
+/** Part map of a merged mesh (empty when the mesh was not merged with `preserveParts`) */
+export function getMergedParts(object: THREE.Object3D | null | undefined): MergedPart[] {
+  return (object?.userData?.mergedParts as MergedPart[] | undefined) ?? []
+}
+
+/** Part containing a triangle of a merged mesh */
+export function findMergedPart(object: THREE.Object3D, faceIndex: number): MergedPart | null {
+  const parts = getMergedParts(object)
+  const offset = faceIndex * 3
+  // parts are stored in range order: binary search
+  let lo = 0
+  let hi = parts.length - 1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    const part = parts[mid]
+    if (offset < part.start) hi = mid - 1
+    else if (offset >= part.start + part.count) lo = mid + 1
+    else return part
+  }
+  return null
+}
+
+/** Per-instance parts of an InstancedMesh (empty when not created by `instancing`) */
+export function getInstanceParts(object: THREE.Object3D | null | undefined): InstancePart[] {
+  return (object?.userData?.instanceParts as InstancePart[] | undefined) ?? []
+}
+
+/** Logical part hit by a raycast, or null when the hit object is neither merged nor instanced */
+export function resolvePickedPart(intersection: THREE.Intersection): MergedPart | InstancePart | null {
+  if (intersection.instanceId != null) return getInstanceParts(intersection.object)[intersection.instanceId] ?? null
+  if (intersection.faceIndex == null) return null
+  return findMergedPart(intersection.object, intersection.faceIndex)
+}
+
+const proxies = new WeakMap<THREE.Object3D, Map<string, THREE.Mesh>>()
+
+/** Proxies draw nothing themselves; outline / mask passes use their own materials */
+const proxyMaterial = new THREE.MeshBasicMaterial({ colorWrite: false, depthWrite: false })
+
+/**
+ * Mesh standing for one part: for merged meshes the same buffers with the draw range limited to the part,
+ * for instanced meshes the shared geometry placed at the instance's transform.
+ * Named after the part and carrying its userData, so name-based tools and OutlinePass can target it.
+ * Created once per part and attached to the merged mesh; it is ignored by raycasting.
+ */
+export function getPartProxy(mesh: THREE.Mesh, part: MergedPart | InstancePart): THREE.Mesh {
+  let byPart = proxies.get(mesh)
+  if (!byPart) {
+    byPart = new Map()
+    proxies.set(mesh, byPart)
+  }
+
+  let proxy = byPart.get(part.uuid)
+  if (!proxy) {
+    proxy = new THREE.Mesh(partGeometry(mesh, part), proxyMaterial)
+    if ('instanceId' in part) {
+      (mesh as THREE.InstancedMesh).getMatrixAt(part.instanceId, proxy.matrix)
+      proxy.matrix.decompose(proxy.position, proxy.quaternion, proxy.scale)
+    }
+    proxy.name = part.name
+    proxy.userData = { ...part.userData, mergedPartOf: mesh.uuid, partUuid: part.uuid }
+    proxy.raycast = () => { }
+    mesh.add(proxy)
+    byPart.set(part.uuid, proxy)
+  }
+  return proxy
+}
+
+function partGeometry(mesh: THREE.Mesh, part: MergedPart | InstancePart): THREE.BufferGeometry {
+  const source = mesh.geometry
+  if ('instanceId' in part) return source
+
+  const geometry = new THREE.BufferGeometry()
+  if (source.index) geometry.setIndex(source.index)
+  Object.entries(source.attributes).forEach(([name, attr]) => geometry.setAttribute(name, attr))
+  geometry.setDrawRange(part.start, part.count)
+  geometry.boundingBox = source.boundingBox
+  geometry.boundingSphere = source.boundingSphere
+  return geometry
+}
+
+/**
+ * Object to report / highlight for a raycast hit: the part proxy for merged / instanced meshes, else the hit object
+ */
+export function resolvePickedObject(intersection: THREE.Intersection): { object: THREE.Object3D, part: MergedPart | InstancePart | null } {
+  const part = resolvePickedPart(intersection)
+  if (!part) return { object: intersection.object, part: null }
+  return { object: getPartProxy(intersection.object as THREE.Mesh, part), part }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { loadModelFromData } from '../loader/modelLoader'
+import { registerModelFormat, unregisterModelFormat } from '../loader/formatRegistry'
+import { decimatePoints, getSourcePointIndex, PointCloudInfo, resolvePickedPoint, stylePointCloud } from './pointCloud'
+
+/** Ten points up the Y axis, intensity rising with height */
+const XYZ_SCAN = Array.from({ length: 10 }, (_, i) => `0 ${i} 0 ${i * 10}`).join('\n') + '\n'
+
+const PLY_SCAN = [
+    'ply',
+    'format ascii 1.0',
+    'element vertex 3',
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    'property float scalar_intensity',
+    'end_header',
+    '0 0 0 255 0 0 0.1',
+    '1 0 0 0 255 0 0.5',
+    '2 0 0 0 0 255 0.9',
+    '',
+].join('\n')
+
+const colorOf = (points: THREE.Points, index: number) => new THREE.Color().fromBufferAttribute(points.geometry.getAttribute('color') as THREE.BufferAttribute, index)
+
+describe('pointCloud', () => {
+    it('should load XYZ scans as Points colored by their intensity', async () => {
+        const points = await loadModelFromData(new File([XYZ_SCAN], 'scan.xyz')) as THREE.Points
+
+        expect(points.isPoints).toBe(true)
+        expect(points.geometry.getAttribute('position').count).toBe(10)
+        const info = points.userData.pointCloud as PointCloudInfo
+        expect(info.colorMode).toBe('intensity')
+        // default ramp: blue at the lowest intensity, red at the highest
+        expect(colorOf(points, 0).getHex()).toBe(0x0000ff)
+        expect(colorOf(points, 9).getHex()).toBe(0xff0000)
+
+        const material = points.material as THREE.PointsMaterial
+        expect(material.sizeAttenuation).toBe(true)
+        expect(material.vertexColors).toBe(true)
+        expect(material.size).toBe(info.size)
+    })
+
+    it('should keep file colors and PLY intensities, and restyle without touching the shared geometry', async () => {
+        const points = await loadModelFromData(new Blob([PLY_SCAN])) as THREE.Points
+        expect(points.isPoints).toBe(true)
+        expect((points.userData.pointCloud as PointCloudInfo).colorMode).toBe('vertex')
+        expect(points.geometry.getAttribute('intensity').getX(2)).toBeCloseTo(0.9)
+
+        const loaded = points.geometry
+        stylePointCloud(points, { colorMode: 'height', heightAxis: 'x', ramp: ['#000000', '#ffffff'], size: 3, sizeAttenuation: false })
+        expect(points.geometry).not.toBe(loaded)
+        expect(loaded.getAttribute('color')).toBeDefined()
+        expect(colorOf(points, 2).getHex()).toBe(0xffffff)
+        expect((points.material as THREE.PointsMaterial).size).toBe(3)
+
+        // file colors come back after a ramp
+        stylePointCloud(points, { colorMode: 'vertex' })
+        expect(colorOf(points, 1).getHex()).toBe(0x00ff00)
+    })
+
+    it('should decimate to the point budget and map picks back to the file', async () => {
+        const points = await loadModelFromData(new File([XYZ_SCAN], 'scan.xyz'), { pointCloud: { maxPoints: 4, colorMode: 'uniform', color: 0x336699 } }) as THREE.Points
+
+        const info = points.userData.pointCloud as PointCloudInfo
+        expect(info).toMatchObject({ sourcePoints: 10, points: 4, colorMode: 'uniform' })
+        expect(points.geometry.getAttribute('intensity').count).toBe(4)
+        expect((points.material as THREE.PointsMaterial).color.getHex()).toBe(0x336699)
+
+        // displayed point 3 is file point floor(3 * 10 / 4) = 7, at y = 7
+        points.position.set(5, 0, 0)
+        points.updateMatrixWorld()
+        const raycaster = new THREE.Raycaster(new THREE.Vector3(5, 7, 10), new THREE.Vector3(0, 0, -1))
+        raycaster.params.Points = { threshold: 0.1 }
+        const picked = resolvePickedPoint(raycaster.intersectObject(points)[0])
+        expect(picked).toMatchObject({ index: 3, sourceIndex: 7 })
+        expect(picked!.position.toArray()).toEqual([5, 7, 0])
+    })
+
+    it('should leave points of other formats alone unless pointCloud is set', async () => {
+        const authored = new THREE.PointsMaterial({ color: 0xff8800, size: 5, sizeAttenuation: false })
+        registerModelFormat('authored', () => () => new THREE.Points(new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0, 1, 1, 1], 3)), authored))
+        try {
+            const kept = await loadModelFromData(new ArrayBuffer(0), { format: 'authored' }) as THREE.Points
+            expect(kept.material).toBe(authored)
+            expect(kept.userData.pointCloud).toBeUndefined()
+
+            const styled = await loadModelFromData(new ArrayBuffer(0), { format: 'authored', pointCloud: { colorMode: 'height' } }) as THREE.Points
+            expect((styled.userData.pointCloud as PointCloudInfo).colorMode).toBe('height')
+        } finally {
+            unregisterModelFormat('authored')
+        }
+
+        const scan = await loadModelFromData(new File([XYZ_SCAN], 'scan.xyz'), { pointCloud: null }) as THREE.Points
+        expect(scan.userData.pointCloud).toBeUndefined()
+    })
+
+    it('should keep every attribute when decimating', () => {
+        const geometry = new THREE.BufferGeometry()
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0, 1, 0, 0, 2, 0, 0, 3, 0, 0], 3))
+        geometry.setAttribute('label', new THREE.Int32BufferAttribute([10, 11, 12, 13], 1))
+
+        const decimated = decimatePoints(geometry, 2)
+        expect(Array.from(decimated.getAttribute('label').array)).toEqual([10, 12])
+        expect(decimated.getAttribute('label').array).toBeInstanceOf(Int32Array)
+        expect(getSourcePointIndex(new THREE.Points(decimated), 1)).toBe(1)
+    })
+})
@@ -0,0 +1,260 @@
+/**
+ * @file pointCloud.ts
+ * @description
+ * Point cloud display (PLY / XYZ / PCD scans as THREE.Points): point size with attenuation,
+ * coloring by file colors, height or intensity ramp, point budget decimation and point picking.
+ *
+ * @best-practice
+ * - The loader styles scans (PLY without faces, XYZ / PTS, PCD); tune it with `loadModelByUrl(url, { pointCloud: {...} })`.
+ *   Passing `pointCloud` also styles points of other formats (glTF POINTS...), `pointCloud: null` keeps the file's materials.
+ * - Restyle at runtime with `stylePointCloud(points, { colorMode: 'intensity' })`: geometry and material
+ *   are replaced, never modified, so cached copies of the model keep their look.
+ * - Set `maxPoints` for huge scans: points are sampled evenly, picking still reports the index in the file.
+ * - The default size follows the estimated point spacing; set the click handler's `pointsPrecision` to about that size.
+ */
+
+import * as THREE from 'three'
+
+/**
+ * - vertex: colors stored in the file
+ * - height: ramp along `heightAxis`
+ * - intensity: ramp over the `intensity` attribute (scanner reflectance)
+ * - uniform: one color (`color`)
+ */
+export type PointColorMode = 'vertex' | 'height' | 'intensity' | 'uniform'
+
+export interface PointCloudOptions {
+  /** Point size: world units with attenuation, pixels without (default: estimated point spacing / 2px) */
+  size?: number
+  /** Shrink points with distance (default true) */
+  sizeAttenuation?: boolean
+  /** Default: 'vertex' when the file has colors, else 'intensity' when it has intensities, else 'height' */
+  colorMode?: PointColorMode
+  /** Color for 'uniform' (default 0xcccccc) */
+  color?: THREE.ColorRepresentation
+  /** Ramp for 'height' / 'intensity', low to high (default blue, cyan, green, yellow, red) */
+  ramp?: THREE.ColorRepresentation[]
+  /** Axis for 'height', in the cloud's own coordinates (default 'y') */
+  heightAxis?: 'x' | 'y' | 'z'
+  /** Point budget: larger clouds are decimated to this many points (default: keep all) */
+  maxPoints?: number | null
+}
+
+/** Stored on `points.userData.pointCloud` */
+export interface PointCloudInfo {
+  /** Points in the file */
+  sourcePoints: number
+  /** Points displayed after decimation */
+  points: number
+  colorMode: PointColorMode
+  size: number
+}
+
+/** A point hit by a raycast */
+export interface PickedPoint {
+  /** Index in the displayed geometry */
+  index: number
+  /** Index in the file (differs from `index` when the cloud was decimated) */
+  sourceIndex: number
+  /** World position of the point */
+  position: THREE.Vector3
+}
+
+const DEFAULT_RAMP: THREE.ColorRepresentation[] = [0x0000ff, 0x00ffff, 0x00ff00, 0xffff00, 0xff0000]
+
+/** Points built by the scan formats (as opposed to points authored in a glTF, FBX...) */
+const scans = new WeakSet<THREE.Points>()
+
+/** Flag points parsed from a scan file so the loader styles them by default (used by the scan formats) */
+export function markScanPoints(points: THREE.Points): THREE.Points {
+  scans.add(points)
+  return points
+}
+
+/** File colors per displayed geometry: they survive restyling to a ramp and back */
+const fileColors = new WeakMap<THREE.BufferGeometry, THREE.BufferAttribute | THREE.InterleavedBufferAttribute | null>()
+
+/**
+ * Loader step: decimate and style the THREE.Points of a freshly loaded object
+ * @param scansOnly Only points flagged by `markScanPoints` (default true)
+ * @returns Number of point clouds prepared
+ */
+export function preparePointClouds(object: THREE.Object3D, options: PointCloudOptions = {}, scansOnly = true): number {
+  const clouds: THREE.Points[] = []
+  object.traverse((child) => {
+    if ((child as THREE.Points).isPoints && (!scansOnly || scans.has(child as THREE.Points))) clouds.push(child as THREE.Points)
+  })
+
+  clouds.forEach((points) => {
+    const sourcePoints = points.geometry.getAttribute('position').count
+    if (options.maxPoints && sourcePoints > options.maxPoints) {
+      const decimated = decimatePoints(points.geometry, options.maxPoints)
+      points.geometry.dispose()
+      points.geometry = decimated
+    }
+    // materials of a fresh load are not shared yet
+    const previous = points.material
+    stylePointCloud(points, options)
+    ;(Array.isArray(previous) ? previous : [previous]).forEach((material) => material.dispose())
+    points.userData.pointCloud.sourcePoints = sourcePoints
+  })
+  return clouds.length
+}
+
+/**
+ * Apply size and color options to a point cloud (replaces its geometry and material)
+ * - Requested color data the cloud lacks falls back to the default mode, with a warning
+ */
+export function stylePointCloud(points: THREE.Points, options: PointCloudOptions = {}): PointCloudInfo {
+  const source = points.geometry
+  const colors = fileColors.has(source) ? fileColors.get(source)! : source.getAttribute('color') ?? null
+  const colorMode = resolveColorMode(options.colorMode, colors !== null, !!source.getAttribute('intensity'))
+
+  // shallow copy: attributes are shared, only the colors change
+  const geometry = new THREE.BufferGeometry()
+  Object.entries(source.attributes).forEach(([name, attribute]) => geometry.setAttribute(name, attribute))
+  if (source.index) geometry.setIndex(source.index)
+  geometry.boundingBox = source.boundingBox
+  geometry.boundingSphere = source.boundingSphere
+  geometry.userData = source.userData
+  geometry.deleteAttribute('color')
+  if (colorMode === 'vertex') geometry.setAttribute('color', colors!)
+  if (colorMode === 'height' || colorMode === 'intensity') {
+    const values = colorMode === 'height'
+      ? readComponent(source.getAttribute('position'), ['x', 'y', 'z'].indexOf(options.heightAxis ?? 'y'))
+      : readComponent(source.getAttribute('intensity'), 0)
+    geometry.setAttribute('color', rampColors(values, options.ramp ?? DEFAULT_RAMP))
+  }
+  fileColors.set(geometry, colors)
+
+  const sizeAttenuation = options.sizeAttenuation ?? true
+  const size = options.size ?? (sizeAttenuation ? estimatePointSpacing(source) : 2)
+  points.geometry = geometry
+  points.material = new THREE.PointsMaterial({
+    size,
+    sizeAttenuation,
+    vertexColors: colorMode !== 'uniform',
+    color: colorMode === 'uniform' ? options.color ?? 0xcccccc : 0xffffff,
+  })
+
+  const count = geometry.getAttribute('position').count
+  const info: PointCloudInfo = {
+    sourcePoints: points.userData.pointCloud?.sourcePoints ?? count,
+    points: count,
+    colorMode,
+    size,
+  }
+  points.userData.pointCloud = info
+  return info
+}
+
+/**
+ * Keep `maxPoints` points sampled evenly through the cloud (file order), with all their attributes
+ * - Displayed point i is point floor(i * count / maxPoints) of the source, see `getSourcePointIndex`
+ */
+export function decimatePoints(geometry: THREE.BufferGeometry, maxPoints: number): THREE.BufferGeometry {
+  const source = geometry.index ? geometry.toNonIndexed() : geometry
+  const count = source.getAttribute('position').count
+  const kept = Math.max(1, Math.min(count, Math.floor(maxPoints)))
+
+  const result = new THREE.BufferGeometry()
+  Object.entries(source.attributes).forEach(([name, attribute]) => {
+    const { itemSize } = attribute
+    const array = new (attribute.array.constructor as any)(kept * itemSize)
+    for (let i = 0; i < kept; i++) {
+      const from = Math.floor((i * count) / kept)
+      for (let c = 0; c < itemSize; c++) array[i * itemSize + c] = readValue(attribute, from, c)
+    }
+    result.setAttribute(name, new THREE.BufferAttribute(array, itemSize, attribute.normalized))
+  })
+  result.userData = { ...geometry.userData }
+  result.computeBoundingBox()
+  result.computeBoundingSphere()
+  if (source !== geometry) source.dispose()
+  return result
+}
+
+/** Index in the file of a displayed point (the same index when the cloud was not decimated) */
+export function getSourcePointIndex(points: THREE.Object3D, index: number): number {
+  const info = points.userData.pointCloud as PointCloudInfo | undefined
+  if (!info || info.points === info.sourcePoints || info.points === 0) return index
+  return Math.floor((index * info.sourcePoints) / info.points)
+}
+
+/** Point of a raycast hit on THREE.Points, or null for other objects */
+export function resolvePickedPoint(intersection: THREE.Intersection): PickedPoint | null {
+  const points = intersection.object as THREE.Points
+  if (!points.isPoints || intersection.index === undefined) return null
+  const position = new THREE.Vector3()
+    .fromBufferAttribute(points.geometry.getAttribute('position') as THREE.BufferAttribute, intersection.index)
+    .applyMatrix4(points.matrixWorld)
+  return {
+    index: intersection.index,
+    sourceIndex: getSourcePointIndex(points, intersection.index),
+    position,
+  }
+}
+
+/* ---------------------
+   Helpers
+   --------------------- */
+
+function resolveColorMode(requested: PointColorMode | undefined, hasColors: boolean, hasIntensity: boolean): PointColorMode {
+  const fallback: PointColorMode = hasColors ? 'vertex' : hasIntensity ? 'intensity' : 'height'
+  if (requested === 'vertex' && !hasColors) {
+    console.warn(`Point cloud has no colors, using ${fallback}`)
+    return fallback
+  }
+  if (requested === 'intensity' && !hasIntensity) {
+    console.warn(`Point cloud has no intensity, using ${fallback}`)
+    return fallback
+  }
+  return requested ?? fallback
+}
+
+/**
+ * Average distance between neighbour points, assuming a scanned surface:
+ * the area of the two largest bounding box extents shared by all points
+ */
+function estimatePointSpacing(geometry: THREE.BufferGeometry): number {
+  const count = geometry.getAttribute('position').count
+  if (!geometry.boundingBox) geometry.computeBoundingBox()
+  const extents = geometry.boundingBox!.getSize(new THREE.Vector3()).toArray().sort((a, b) => b - a)
+  const spacing = Math.sqrt((extents[0] * Math.max(extents[1], extents[0] * 1e-3)) / Math.max(1, count))
+  return spacing > 0 && Number.isFinite(spacing) ? spacing : 1
+}
+
+function readValue(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, index: number, component: number): number {
+  if ((attribute as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute) {
+    const { data, offset } = attribute as THREE.InterleavedBufferAttribute
+    return data.array[index * data.stride + offset + component]
+  }
+  return attribute.array[index * attribute.itemSize + component]
+}
+
+function readComponent(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, component: number): Float32Array {
+  const values = new Float32Array(attribute.count)
+  for (let i = 0; i < attribute.count; i++) values[i] = readValue(attribute, i, component)
+  return values
+}
+
+/** Map values onto the ramp between their min and max (NaN maps to the low end) */
+function rampColors(values: Float32Array, ramp: THREE.ColorRepresentation[]): THREE.BufferAttribute {
+  let min = Infinity
+  let max = -Infinity
+  values.forEach((v) => {
+    if (v < min) min = v
+    if (v > max) max = v
+  })
+  const range = max > min ? max - min : 1
+  const stops = (ramp.length ? ramp : DEFAULT_RAMP).map((c) => new THREE.Color(c))
+  const colors = new Float32Array(values.length * 3)
+  const color = new THREE.Color()
+  values.forEach((v, i) => {
+    const t = Number.isFinite(v) ? ((v - min) / range) * (stops.length - 1) : 0
+    const stop = Math.min(stops.length - 1, Math.floor(t))
+    color.lerpColors(stops[stop], stops[Math.min(stops.length - 1, stop + 1)], t - stop)
+    color.toArray(colors, i * 3)
+  })
+  return new THREE.BufferAttribute(colors, 3)
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { AnimationClock, createAnimationController } from './animationController'
+
+/** Model whose 'lid' opens (x 0 -> 10) over 1s and 'spin' rotates over 2s */
+function animatedModel(): { model: THREE.Group, lid: THREE.Object3D } {
+    const model = new THREE.Group()
+    const lid = new THREE.Object3D()
+    lid.name = 'lid'
+    model.add(lid)
+    model.userData.animations = [
+        new THREE.AnimationClip('open', 1, [new THREE.VectorKeyframeTrack('lid.position', [0, 1], [0, 0, 0, 10, 0, 0])]),
+        new THREE.AnimationClip('spin', 2, [new THREE.NumberKeyframeTrack('lid.rotation[y]', [0, 2], [0, Math.PI])]),
+    ]
+    return { model, lid }
+}
+
+function setup() {
+    const clock = new AnimationClock({ autoStart: false })
+    const { model, lid } = animatedModel()
+    const controller = createAnimationController(model, { clock })
+    return { clock, model, lid, controller }
+}
+
+describe('animationController', () => {
+    it('should play a clip by name and resolve when a single run finishes', async () => {
+        const { clock, lid, controller } = setup()
+        expect(controller.names()).toEqual(['open', 'spin'])
+
+        const done = controller.play('open', { loop: 'once' })
+        clock.tick(0.5)
+        expect(lid.position.x).toBeCloseTo(5)
+        clock.tick(0.6)
+
+        await expect(done).resolves.toBe(true)
+        // clamped on the last frame
+        expect(lid.position.x).toBeCloseTo(10)
+    })
+
+    it('should pause, seek and apply the global time scale', () => {
+        const { clock, lid, controller } = setup()
+        controller.play('open')
+        controller.pause('open')
+        clock.tick(0.5)
+        expect(lid.position.x).toBeCloseTo(0)
+
+        controller.seek('open', 0.25)
+        expect(lid.position.x).toBeCloseTo(2.5)
+
+        controller.resume('open')
+        controller.setTimeScale(2)
+        clock.tick(0.25)
+        expect(lid.position.x).toBeCloseTo(7.5)
+    })
+
+    it('should resolve false when a clip is stopped or faded out', async () => {
+        const { clock, controller } = setup()
+        const open = controller.play('open')
+        const spin = controller.crossFade('spin', { duration: 0.2 })
+        clock.tick(0.1)
+        expect(controller.isPlaying('spin')).toBe(true)
+        await expect(open).resolves.toBe(false)
+
+        controller.stop()
+        await expect(spin).resolves.toBe(false)
+        expect(controller.isPlaying('spin')).toBe(false)
+    })
+
+    it('should reject unknown clip names', () => {
+        const { controller } = setup()
+        expect(() => controller.play('close')).toThrow('Animation clip not found: close')
+    })
+
+    it('should parse JSON clips left by Object3D.clone and dispose with the model', async () => {
+        const clock = new AnimationClock({ autoStart: false })
+        const parent = new THREE.Group()
+        const copy = animatedModel().model.clone()
+        parent.add(copy)
+        const controller = createAnimationController(copy, { clock })
+
+        expect(controller.clips[0]).toBeInstanceOf(THREE.AnimationClip)
+        const done = controller.play('spin')
+        parent.remove(copy)
+
+        await expect(done).resolves.toBe(false)
+        clock.tick(1)
+        expect(copy.getObjectByName('lid')!.rotation.y).toBe(0)
+    })
+
+    it('should keep playing when the model is re-parented', async () => {
+        const clock = new AnimationClock({ autoStart: false })
+        const scene = new THREE.Scene()
+        const group = new THREE.Group()
+        scene.add(group)
+        const { model, lid } = animatedModel()
+        scene.add(model)
+        const controller = createAnimationController(model, { clock })
+
+        controller.play('open', { loop: 'once' })
+        group.add(model)
+        scene.attach(model)
+        await Promise.resolve()
+
+        clock.tick(0.5)
+        expect(lid.position.x).toBeCloseTo(5)
+        expect(controller.isPlaying('open')).toBe(true)
+    })
+})
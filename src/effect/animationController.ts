@@ -0,0 +1,275 @@
+/**
+ * @file animationController.ts
+ * @description
+ * Plays the animation clips of a loaded model (`userData.animations`) through one AnimationMixer:
+ * play / pause / stop by name, crossfades, loop modes, time scale, seeking and completion promises.
+ *
+ * @best-practice
+ * - Create one controller per model instance: `createAnimationController(model)`.
+ * - All controllers tick on the shared `AnimationClock` (one requestAnimationFrame loop);
+ *   apps with their own render loop pass `new AnimationClock({ autoStart: false })` and call `tick()` per frame.
+ * - `play()` resolves true when a finite animation finishes, false when it is stopped or the controller is disposed.
+ * - The controller disposes itself once the model is detached from the scene graph (re-parenting with `add()` /
+ *   `attach()` keeps it alive); with `autoDispose: false`, call `dispose()` when the model goes away.
+ */
+
+import * as THREE from 'three'
+
+export type AnimationLoopMode = 'once' | 'repeat' | 'pingpong'
+
+export interface PlayOptions {
+  /** Loop mode (default 'repeat') */
+  loop?: AnimationLoopMode
+  /** Number of repetitions for 'repeat' / 'pingpong' (default Infinity) */
+  repetitions?: number
+  /** Speed of this clip; negative plays backwards (default 1) */
+  timeScale?: number
+  /** Fade-in duration in seconds (default 0) */
+  fadeIn?: number
+  /** Start time in seconds (default 0) */
+  startAt?: number
+  /** Keep the last frame when a finite animation ends (default true) */
+  clampWhenFinished?: boolean
+}
+
+export interface CrossFadeOptions extends PlayOptions {
+  /** Fade duration in seconds (default 0.3) */
+  duration?: number
+  /** Clip to fade out; default: every clip currently playing */
+  from?: string
+}
+
+export interface AnimationControllerOptions {
+  /** Clock driving the mixer (default: the shared clock) */
+  clock?: AnimationClock
+  /** Dispose when the model is removed without being added elsewhere in the same task (default true) */
+  autoDispose?: boolean
+}
+
+export interface AnimationController {
+  readonly mixer: THREE.AnimationMixer
+  readonly clips: THREE.AnimationClip[]
+  /** Clip names, in file order */
+  names(): string[]
+  play(name: string, options?: PlayOptions): Promise<boolean>
+  /** Fade from the playing clip(s) to `name` */
+  crossFade(name: string, options?: CrossFadeOptions): Promise<boolean>
+  /** Pause one clip, or all clips */
+  pause(name?: string): void
+  resume(name?: string): void
+  /** Stop one clip, or all clips, and reset them */
+  stop(name?: string): void
+  /** Jump to a time in seconds and apply the pose immediately (also while paused) */
+  seek(name: string, time: number): void
+  /** Global speed of the model's animations (default 1) */
+  setTimeScale(scale: number): void
+  isPlaying(name: string): boolean
+  dispose(): void
+}
+
+/* ---------------------
+   Clock
+   --------------------- */
+
+/**
+ * One frame loop shared by all animation controllers
+ */
+export class AnimationClock {
+  private listeners = new Set<(delta: number) => void>()
+  private clock = new THREE.Clock(false)
+  private frame: number | null = null
+  private autoStart: boolean
+
+  constructor(options: { autoStart?: boolean } = {}) {
+    this.autoStart = options.autoStart ?? true
+  }
+
+  /** Subscribe to frame deltas (seconds); returns the unsubscribe function */
+  subscribe(listener: (delta: number) => void): () => void {
+    this.listeners.add(listener)
+    if (this.autoStart && this.frame === null && typeof requestAnimationFrame !== 'undefined') this.loop()
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) this.halt()
+    }
+  }
+
+  /** Advance all subscribers; `delta` defaults to the time since the last tick */
+  tick(delta?: number) {
+    if (!this.clock.running) this.clock.start()
+    const elapsed = this.clock.getDelta()
+    const step = delta ?? elapsed
+    this.listeners.forEach((listener) => listener(step))
+  }
+
+  private loop = () => {
+    this.frame = requestAnimationFrame(this.loop)
+    this.tick()
+  }
+
+  private halt() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame)
+    this.frame = null
+    this.clock.stop()
+  }
+}
+
+let sharedClock: AnimationClock | null = null
+
+/** Clock used by controllers created without an explicit one */
+export function getSharedAnimationClock(): AnimationClock {
+  if (!sharedClock) sharedClock = new AnimationClock()
+  return sharedClock
+}
+
+/* ---------------------
+   Controller
+   --------------------- */
+
+/**
+ * Clips of a loaded model: `userData.animations`, else `object.animations`
+ * - Entries turned into plain JSON by Object3D.clone are parsed back into AnimationClips
+ */
+export function getAnimationClips(model: THREE.Object3D): THREE.AnimationClip[] {
+  const stored = model.userData?.animations
+  const clips: any[] = Array.isArray(stored) && stored.length > 0 ? stored : model.animations ?? []
+  return clips.map((clip) => (clip instanceof THREE.AnimationClip ? clip : THREE.AnimationClip.parse(clip)))
+}
+
+const LOOP_MODES: Record<AnimationLoopMode, THREE.AnimationActionLoopStyles> = {
+  once: THREE.LoopOnce,
+  repeat: THREE.LoopRepeat,
+  pingpong: THREE.LoopPingPong,
+}
+
+/**
+ * Create an animation controller for a loaded model
+ */
+export function createAnimationController(model: THREE.Object3D, options: AnimationControllerOptions = {}): AnimationController {
+  const clips = getAnimationClips(model)
+  const mixer = new THREE.AnimationMixer(model)
+  const clock = options.clock ?? getSharedAnimationClock()
+  // resolvers of play() promises, per action
+  const pending = new Map<THREE.AnimationAction, Array<(finished: boolean) => void>>()
+  let disposed = false
+
+  const settle = (action: THREE.AnimationAction, finished: boolean) => {
+    pending.get(action)?.forEach((resolve) => resolve(finished))
+    pending.delete(action)
+  }
+
+  const onFinished = (event: any) => settle(event.action, true)
+  mixer.addEventListener('finished', onFinished)
+
+  const unsubscribe = clock.subscribe((delta) => mixer.update(delta))
+
+  // add() / attach() fire 'removed' before re-parenting: only a model still detached afterwards is gone
+  const onRemoved = () => queueMicrotask(() => {
+    if (!model.parent) controller.dispose()
+  })
+  if (options.autoDispose ?? true) model.addEventListener('removed', onRemoved)
+
+  function getAction(name: string): THREE.AnimationAction {
+    const clip = clips.find((c) => c.name === name)
+    if (!clip) throw new Error(`Animation clip not found: ${name} (available: ${clips.map((c) => c.name).join(', ') || 'none'})`)
+    return mixer.clipAction(clip)
+  }
+
+  function actionsFor(name?: string): THREE.AnimationAction[] {
+    if (name !== undefined) return [getAction(name)]
+    return clips.map((clip) => mixer.existingAction(clip)).filter((a): a is THREE.AnimationAction => !!a)
+  }
+
+  function start(action: THREE.AnimationAction, opts: PlayOptions): Promise<boolean> {
+    if (disposed) return Promise.resolve(false)
+    // a restarted action ends the previous run
+    settle(action, false)
+
+    const loop = opts.loop ?? 'repeat'
+    action.reset()
+    action.setLoop(LOOP_MODES[loop], loop === 'once' ? 1 : opts.repetitions ?? Infinity)
+    action.clampWhenFinished = opts.clampWhenFinished ?? true
+    action.timeScale = opts.timeScale ?? 1
+    action.time = opts.startAt ?? (action.timeScale < 0 ? action.getClip().duration : 0)
+    if (opts.fadeIn) action.fadeIn(opts.fadeIn)
+    action.play()
+
+    return new Promise((resolve) => {
+      const list = pending.get(action) ?? []
+      list.push(resolve)
+      pending.set(action, list)
+    })
+  }
+
+  const controller: AnimationController = {
+    mixer,
+    clips,
+
+    names: () => clips.map((c) => c.name),
+
+    play: (name, opts = {}) => start(getAction(name), opts),
+
+    crossFade(name, opts = {}) {
+      const to = getAction(name)
+      const duration = opts.duration ?? 0.3
+      const from = opts.from !== undefined
+        ? [getAction(opts.from)]
+        : actionsFor().filter((a) => a !== to && a.isRunning())
+      const done = start(to, { ...opts, fadeIn: from.length === 0 ? duration : 0 })
+      from.forEach((action) => {
+        action.crossFadeTo(to, duration, false)
+        settle(action, false)
+      })
+      return done
+    },
+
+    pause(name) {
+      actionsFor(name).forEach((action) => { action.paused = true })
+    },
+
+    resume(name) {
+      actionsFor(name).forEach((action) => { action.paused = false })
+    },
+
+    stop(name) {
+      actionsFor(name).forEach((action) => {
+        action.stop()
+        settle(action, false)
+      })
+    },
+
+    seek(name, time) {
+      const action = getAction(name)
+      if (!action.isScheduled()) {
+        action.play()
+        action.paused = true
+      }
+      action.time = time
+      mixer.update(0)
+    },
+
+    setTimeScale(scale) {
+      mixer.timeScale = scale
+    },
+
+    isPlaying(name) {
+      const clip = clips.find((c) => c.name === name)
+      const action = clip ? mixer.existingAction(clip) : null
+      return !!action && action.isRunning()
+    },
+
+    dispose() {
+      if (disposed) return
+      disposed = true
+      unsubscribe()
+      model.removeEventListener('removed', onRemoved)
+      mixer.removeEventListener('finished', onFinished)
+      Array.from(pending.keys()).forEach((action) => settle(action, false))
+      mixer.stopAllAction()
+      clips.forEach((clip) => mixer.uncacheClip(clip))
+      mixer.uncacheRoot(model)
+    },
+  }
+
+  return controller
+}
@@ -1,2 +1,3 @@
-// Effect utilities - Model explosion effects
+// Effect utilities - Model explosion effects and animation playback
 export * from './exploder'
+export * from './animationController'
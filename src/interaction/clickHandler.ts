@@ -7,10 +7,28 @@
  * - Use `createModelClickHandler` to setup interaction.
  * - Handles debouncing and click threshold automatically.
  * - Cleanup using the returned dispose function.
+ * - Hits on merged meshes (`mergeGeometries: 'preserveParts'`) and instances (`instancing`) resolve to the original part.
+ * - Hits on point clouds report the picked point (`pointIndex`); tune `raycasterParams.pointsPrecision` to the point size.
  */
 
 import * as THREE from 'three';
 import { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass';
+import { InstancePart, MergedPart, resolvePickedObject } from '../core/mergedParts';
+import { resolvePickedPoint } from '../core/pointCloud';
+
+/**
+ * Click info passed to the callback
+ * - part: original part of a merged / instanced mesh
+ * - pointIndex / sourcePointIndex: picked point of a point cloud, in the displayed geometry / in the file
+ */
+export interface ModelClickInfo {
+  name?: string
+  position?: THREE.Vector3
+  uuid?: string
+  part?: MergedPart | InstancePart
+  pointIndex?: number
+  sourcePointIndex?: number
+}
 
 /**
  * Click Handler Options
@@ -41,7 +59,8 @@ export interface ClickHandlerOptions {
  * @param scene Scene
  * @param renderer Renderer
  * @param outlinePass Initialized OutlinePass
- * @param onClick Click callback
+ * @param onClick Click callback; for merged / instanced meshes `object` is the part proxy and `info.part` the original part,
+ *   for point clouds `info.position` is the picked point
  * @param options Optional configuration
  * @returns Dispose function, used to clean up events and resources
  */
@@ -50,7 +69,7 @@ export function createModelClickHandler(
   scene: THREE.Scene,
   renderer: THREE.WebGLRenderer,
   outlinePass: OutlinePass,
-  onClick: (object: THREE.Object3D | null, info?: { name?: string; position?: THREE.Vector3; uuid?: string }) => void,
+  onClick: (object: THREE.Object3D | null, info?: ModelClickInfo) => void,
   options: ClickHandlerOptions = {}
 ) {
   // Configuration
@@ -156,14 +175,28 @@ export function createModelClickHandler(
     const intersects = raycaster.intersectObjects(scene.children, true);
 
     if (intersects.length > 0) {
-      let object = intersects[0].object;
+      // Merged and instanced meshes resolve to the proxy of the original part
+      const { object, part } = resolvePickedObject(intersects[0]);
       // Click different model, clear previous highlight first
       if (selectedObject && selectedObject !== object) restoreObject();
 
       selectedObject = object;
       // highlightObject(selectedObject); // Optional: whether to auto highlight
 
-      onClick(selectedObject, {
+      const point = resolvePickedPoint(intersects[0]);
+
+      onClick(selectedObject, part ? {
+        name: part.name || 'Unnamed Model',
+        position: new THREE.Vector3().fromArray(part.center).applyMatrix4(intersects[0].object.matrixWorld),
+        uuid: part.uuid,
+        part
+      } : point ? {
+        name: selectedObject.name || 'Unnamed Model',
+        position: point.position,
+        uuid: selectedObject.uuid,
+        pointIndex: point.index,
+        sourcePointIndex: point.sourceIndex
+      } : {
         name: selectedObject.name || 'Unnamed Model',
         position: selectedObject.getWorldPosition(new THREE.Vector3()),
         uuid: selectedObject.uuid
@@ -143,6 +143,9 @@ export class LiquidFillerGroup {
           side: THREE.DoubleSide,
         })
         const liquidMesh = new THREE.Mesh(mergedGeometry, material)
+        liquidMesh.name = 'liquid'
+        // viewer-only: left out of exports
+        liquidMesh.userData.liquidFill = true
         this.scene.add(liquidMesh)
 
         // Set clippingPlane
@@ -7,10 +7,13 @@
  * - Call `init` once before use.
  * - Use `loadAsync` to load skyboxes with progress tracking.
  * - Automatically handles PMREM generation for realistic lighting.
+ * - Downloads follow the global retry policy, mirrors, URL resolver and request headers (`setLoaderConfig`).
  */
 
 import * as THREE from 'three'
 import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js'
+import { applyRequestConfig, getLoaderConfig, resolveAssetUrl } from './config'
+import { withRetry } from './retry'
 
 /**
  * Load progress callback type
@@ -58,6 +61,9 @@ class BlueSkyManager {
   /** Current loader, used for cancelling load */
   private currentLoader: EXRLoader | null = null
 
+  /** Stops pending retries of the current load */
+  private retryController: AbortController | null = null
+
   /** Loading state */
   private loadingState: 'idle' | 'loading' | 'loaded' | 'error' = 'idle'
 
@@ -112,11 +118,35 @@ class BlueSkyManager {
     } = options
 
     this.loadingState = 'loading'
-    this.currentLoader = new EXRLoader()
+    this.currentLoader = applyRequestConfig(new EXRLoader())
+
+    const loader = this.currentLoader
+    const config = getLoaderConfig()
+    this.retryController = new AbortController()
+
+    // Download (with the global retry policy / mirrors), then process
+    const download = withRetry(resolveAssetUrl(exrPath), (url) => new Promise<THREE.DataTexture>((resolve, reject) => {
+      loader.load(
+        url,
+        resolve,
+        // Progress callback
+        (xhr) => {
+          if (onProgress && xhr.lengthComputable) {
+            const progress = xhr.loaded / xhr.total
+            onProgress(progress)
+          }
+        },
+        reject
+      )
+    }), {
+      policy: config.retry,
+      mirrors: config.mirrors,
+      onAttempt: config.onDownloadAttempt ?? undefined,
+      signal: this.retryController.signal,
+    })
 
     return new Promise((resolve, reject) => {
-      this.currentLoader!.load(
-        exrPath,
+      download.then(
         // Success callback
         (texture) => {
           try {
@@ -151,13 +181,6 @@ class BlueSkyManager {
             reject(error)
           }
         },
-        // Progress callback
-        (xhr) => {
-          if (onProgress && xhr.lengthComputable) {
-            const progress = xhr.loaded / xhr.total
-            onProgress(progress)
-          }
-        },
         // Error callback
         (err) => {
           this.loadingState = 'error'
@@ -186,6 +209,8 @@ class BlueSkyManager {
    * Cancel current load
    */
   cancelLoad() {
+    this.retryController?.abort()
+    this.retryController = null
     if (this.currentLoader) {
       // EXRLoader itself does not have abort method, but we can clear the reference
       this.currentLoader = null
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { setLoaderConfig, getLoaderConfig } from './config'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import * as THREE from 'three'
+import { setLoaderConfig, getLoaderConfig, resolveAssetUrl, applyRequestConfig, createLoadingManager, RequestTextureLoader } from './config'
 
 describe('Loader Configuration', () => {
     beforeEach(() => {
@@ -22,4 +23,57 @@ describe('Loader Configuration', () => {
         expect(config.dracoDecoderPath).toBe('/custom/draco/')
         expect(config.ktx2TranscoderPath).toBe('/basis/') // preserved
     })
+
+    it('should merge retry policy fields', () => {
+        setLoaderConfig({ retry: { maxAttempts: 4 } })
+        setLoaderConfig({ retry: { baseDelay: 100 } })
+        const { retry } = getLoaderConfig()
+        expect(retry.maxAttempts).toBe(4)
+        expect(retry.baseDelay).toBe(100)
+        expect(retry.factor).toBe(2) // preserved
+        setLoaderConfig({ retry: { maxAttempts: 1, baseDelay: 500 } })
+    })
+
+    it('should resolve asset URLs with the hook and base path', () => {
+        setLoaderConfig({ basePath: 'assets/', resolveUrl: (url) => url === 'sky' ? 'env/sky.hdr' : url })
+        expect(resolveAssetUrl('sky')).toBe('assets/env/sky.hdr')
+        expect(resolveAssetUrl('./a.glb')).toBe('assets/a.glb')
+        expect(resolveAssetUrl('/root/a.glb')).toBe('/root/a.glb')
+        expect(resolveAssetUrl('https://x.com/a.glb')).toBe('https://x.com/a.glb')
+        expect(resolveAssetUrl('blob:abc')).toBe('blob:abc')
+        setLoaderConfig({ basePath: '', resolveUrl: null })
+    })
+
+    it('should apply headers and credentials to three.js loaders', () => {
+        setLoaderConfig({ requestHeaders: { 'X-Key': '1' }, withCredentials: true })
+        const loader = applyRequestConfig(new THREE.FileLoader())
+        expect(loader.requestHeader).toEqual({ 'X-Key': '1' })
+        expect(loader.withCredentials).toBe(true)
+        expect(loader.crossOrigin).toBe('use-credentials')
+        setLoaderConfig({ requestHeaders: {}, withCredentials: false })
+    })
+
+    it('should fetch textures with the configured headers', async () => {
+        const fetchMock = vi.fn(async (_request: Request) => new Response(new Blob([new Uint8Array(8)], { type: 'image/png' })))
+        const createObjectURL = vi.fn(() => 'blob:texture')
+        vi.stubGlobal('fetch', fetchMock)
+        // jsdom has no Blob URLs
+        const { createObjectURL: originalCreate, revokeObjectURL: originalRevoke } = URL
+        Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() })
+        setLoaderConfig({ requestHeaders: { Authorization: 'Bearer t' } })
+        try {
+            // images of MTL / FBX / glTF files go through the manager handler
+            const handler = createLoadingManager().getHandler('https://cdn.example.com/wall.png')
+            expect(handler).toBeInstanceOf(RequestTextureLoader)
+
+            handler!.load('https://cdn.example.com/wall.png', () => { })
+            await vi.waitFor(() => expect(createObjectURL).toHaveBeenCalled())
+            expect(fetchMock.mock.calls[0][0].headers.get('Authorization')).toBe('Bearer t')
+        } finally {
+            setLoaderConfig({ requestHeaders: {} })
+            Object.assign(URL, { createObjectURL: originalCreate, revokeObjectURL: originalRevoke })
+            vi.unstubAllGlobals()
+        }
+        expect(createLoadingManager().getHandler('wall.png')).toBeNull()
+    })
 })
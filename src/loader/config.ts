@@ -1,18 +1,96 @@
+import * as THREE from 'three'
+import type { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js'
+import type { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js'
+import type { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js'
+import type { PersistentModelCache } from './persistentCache'
+import { DEFAULT_RETRY_POLICY, DownloadAttemptCallback, RetryPolicy } from './retry'
+
+/** Compressed texture formats supported by the GPU (what `KTX2Loader.detectSupport` reads from a renderer) */
+export interface KTX2Capabilities {
+    astcSupported?: boolean
+    astcHDRSupported?: boolean
+    etc1Supported?: boolean
+    etc2Supported?: boolean
+    dxtSupported?: boolean
+    bptcSupported?: boolean
+    pvrtcSupported?: boolean
+}
+
 export interface GlobalLoaderConfig {
     dracoDecoderPath: string
     ktx2TranscoderPath: string
+    /** Persistent byte cache used by loadModelByUrl (opt-in, default null) */
+    persistentCache: PersistentModelCache | null
+    /** Retry policy for model and skybox downloads (default: no retry) */
+    retry: RetryPolicy
+    /** Ordered mirror base URLs tried after the primary URL fails */
+    mirrors: string[]
+    /** Called after every download attempt (success or failure), e.g. for logging */
+    onDownloadAttempt: DownloadAttemptCallback | null
+    /** Headers sent with every request made by the library's loaders (e.g. Authorization) */
+    requestHeaders: Record<string, string>
+    /** Send cookies / credentials with cross-origin requests (default false) */
+    withCredentials: boolean
+    /** Prefix for relative asset URLs (not applied to absolute or root-relative `/` URLs) */
+    basePath: string
+    /**
+     * Map logical asset IDs to real URLs (e.g. 'pump-01' -> signed gateway URL).
+     * Also called for dependent resources (.bin, textures) and already-resolved URLs:
+     * return URLs you do not recognize unchanged.
+     */
+    resolveUrl: ((url: string) => string) | null
+    /** Renderer used to detect the KTX2 transcode target (required for models with KTX2 textures) */
+    renderer: THREE.WebGLRenderer | null
+    /** Explicit KTX2 capability set, used when no `renderer` is configured (workers, tests, server-side) */
+    ktx2Capabilities: KTX2Capabilities | null
+    /** Max Draco decoder workers (default 4) */
+    dracoWorkerLimit: number
+    /** Max KTX2 transcoder workers (default 4) */
+    ktx2WorkerLimit: number
+    /** Meshopt decoder workers; 0 decodes on the main thread (default 0) */
+    meshoptWorkerCount: number
 }
 
+/** Partial config update; `retry` is merged field by field */
+export type LoaderConfigUpdate = Partial<Omit<GlobalLoaderConfig, 'retry'>> & { retry?: Partial<RetryPolicy> }
+
 let globalConfig: GlobalLoaderConfig = {
     dracoDecoderPath: '/draco/',
     ktx2TranscoderPath: '/basis/',
+    persistentCache: null,
+    retry: { ...DEFAULT_RETRY_POLICY },
+    mirrors: [],
+    onDownloadAttempt: null,
+    requestHeaders: {},
+    withCredentials: false,
+    basePath: '',
+    resolveUrl: null,
+    renderer: null,
+    ktx2Capabilities: null,
+    dracoWorkerLimit: 4,
+    ktx2WorkerLimit: 4,
+    meshoptWorkerCount: 0,
 }
 
 /**
  * Update global loader configuration (e.g., set path to CDN)
  */
-export function setLoaderConfig(config: Partial<GlobalLoaderConfig>) {
-    globalConfig = { ...globalConfig, ...config }
+export function setLoaderConfig(config: LoaderConfigUpdate) {
+    const changed = (key: keyof GlobalLoaderConfig) => key in config && (config as any)[key] !== globalConfig[key]
+    // Worker pools and the KTX2 transcode target are fixed once a shared decoder has started
+    const resetDraco = changed('dracoWorkerLimit')
+    const resetKTX2 = changed('renderer') || changed('ktx2Capabilities') || changed('ktx2WorkerLimit')
+    const resizeMeshopt = changed('meshoptWorkerCount')
+
+    globalConfig = {
+        ...globalConfig,
+        ...config,
+        retry: { ...globalConfig.retry, ...config.retry },
+    }
+
+    if (resetDraco) disposeDecoderPool(dracoLoaders)
+    if (resetKTX2) disposeDecoderPool(ktx2Loaders)
+    if (resizeMeshopt) meshoptDecoder?.then((decoder) => useMeshoptWorkers(decoder), () => { })
 }
 
 /**
@@ -21,3 +99,230 @@ export function setLoaderConfig(config: Partial<GlobalLoaderConfig>) {
 export function getLoaderConfig(): GlobalLoaderConfig {
     return globalConfig
 }
+
+/**
+ * Resolve an asset URL with the global config: `resolveUrl` hook, then `basePath` for relative URLs
+ */
+export function resolveAssetUrl(url: string): string {
+    const resolved = globalConfig.resolveUrl ? globalConfig.resolveUrl(url) : url
+    const base = globalConfig.basePath
+    if (!base || /^([a-z][a-z\d+\-.]*:|\/)/i.test(resolved)) return resolved
+    return base.replace(/\/+$/, '') + '/' + resolved.replace(/^\.?\/+/, '')
+}
+
+/**
+ * Apply request headers, credentials and cross-origin mode of the global config to a three.js loader.
+ * Loaders pass these on to the requests they make for dependent resources (.bin, textures).
+ * TextureLoader / CubeTextureLoader load through `<img>` and ignore headers: use `RequestTextureLoader` /
+ * `RequestCubeTextureLoader` (managers from `createLoadingManager` route image textures to it).
+ */
+export function applyRequestConfig<T extends THREE.Loader<any, any>>(loader: T): T {
+    loader.setRequestHeader({ ...globalConfig.requestHeaders })
+    loader.setWithCredentials(globalConfig.withCredentials)
+    loader.setCrossOrigin(globalConfig.withCredentials ? 'use-credentials' : 'anonymous')
+    return loader
+}
+
+/**
+ * Create a LoadingManager whose URL modifier runs the `resolveUrl` hook for dependent resources.
+ * With request headers configured, image textures of MTL / FBX / glTF files go through `RequestTextureLoader`.
+ */
+export function createLoadingManager(): THREE.LoadingManager {
+    const manager = new THREE.LoadingManager()
+    const { resolveUrl } = globalConfig
+    if (resolveUrl) manager.setURLModifier((url) => resolveUrl(url))
+    if (hasRequestHeaders()) manager.addHandler(IMAGE_URL, applyRequestConfig(new RequestTextureLoader(manager)))
+    return manager
+}
+
+/* ---------------------
+   Image Loaders With Headers
+   --------------------- */
+
+/** Image URLs (or `.ext` keys as FBXLoader asks for) routed to `RequestTextureLoader` */
+const IMAGE_URL = /\.(png|jpe?g|webp|gif|bmp|avif)([?#].*)?$/i
+
+function hasRequestHeaders(): boolean {
+    return Object.keys(globalConfig.requestHeaders).length > 0
+}
+
+/**
+ * Download an image with the loader's headers and credentials (FileLoader + Blob URL),
+ * as `<img>` requests made by ImageLoader cannot carry headers
+ */
+function loadImageWithHeaders(
+    loader: Pick<THREE.Loader, 'manager' | 'path' | 'requestHeader' | 'withCredentials'>,
+    url: string,
+    onLoad: (image: HTMLImageElement) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (err: unknown) => void
+) {
+    const fileLoader = new THREE.FileLoader(loader.manager)
+    fileLoader.setPath(loader.path)
+    fileLoader.setResponseType('blob')
+    fileLoader.setRequestHeader(loader.requestHeader)
+    fileLoader.setWithCredentials(loader.withCredentials)
+    fileLoader.load(url, (blob) => {
+        const objectUrl = URL.createObjectURL(blob as unknown as Blob)
+        // no manager: the Blob URL must not go through URL modifiers
+        new THREE.ImageLoader().load(objectUrl, (image) => {
+            URL.revokeObjectURL(objectUrl)
+            onLoad(image)
+        }, undefined, (err) => {
+            URL.revokeObjectURL(objectUrl)
+            onError?.(err)
+        })
+    }, onProgress, onError)
+}
+
+/**
+ * TextureLoader that sends `requestHeader` (set by `applyRequestConfig`); without headers it loads like TextureLoader
+ */
+export class RequestTextureLoader extends THREE.TextureLoader {
+    load(url: string, onLoad?: (texture: THREE.Texture) => void, onProgress?: (event: ProgressEvent) => void, onError?: (err: unknown) => void): THREE.Texture {
+        if (Object.keys(this.requestHeader).length === 0) return super.load(url, onLoad, onProgress, onError)
+        const texture = new THREE.Texture()
+        loadImageWithHeaders(this, url, (image) => {
+            texture.image = image
+            texture.needsUpdate = true
+            onLoad?.(texture)
+        }, onProgress, onError)
+        return texture
+    }
+}
+
+/**
+ * CubeTextureLoader that sends `requestHeader` (set by `applyRequestConfig`)
+ */
+export class RequestCubeTextureLoader extends THREE.CubeTextureLoader {
+    load(urls: string[], onLoad?: (texture: THREE.CubeTexture) => void, onProgress?: (event: ProgressEvent) => void, onError?: (err: unknown) => void): THREE.CubeTexture {
+        if (Object.keys(this.requestHeader).length === 0) return super.load(urls, onLoad, onProgress, onError)
+        const texture = new THREE.CubeTexture()
+        texture.colorSpace = THREE.SRGBColorSpace
+        let loaded = 0
+        urls.forEach((url, i) => {
+            loadImageWithHeaders(this, url, (image) => {
+                texture.images[i] = image
+                if (++loaded === urls.length) {
+                    texture.needsUpdate = true
+                    onLoad?.(texture)
+                }
+            }, undefined, onError)
+        })
+        return texture
+    }
+}
+
+/**
+ * RequestInit for fetch calls made directly by the library
+ */
+export function getRequestInit(extraHeaders: Record<string, string> = {}): RequestInit {
+    return {
+        headers: { ...globalConfig.requestHeaders, ...extraHeaders },
+        credentials: globalConfig.withCredentials ? 'include' : 'same-origin',
+    }
+}
+
+/* ---------------------
+   Shared Decoders
+   --------------------- */
+
+/** Draco / KTX2 loaders (and their worker pools) per decoder path, shared by every load */
+const dracoLoaders = new Map<string, Promise<DRACOLoader>>()
+const ktx2Loaders = new Map<string, Promise<KTX2Loader>>()
+let meshoptDecoder: Promise<SharedMeshoptDecoder> | null = null
+
+/** `useWorkers` exists at runtime but is missing from older typings */
+type SharedMeshoptDecoder = typeof MeshoptDecoder & { useWorkers(count: number): void }
+
+function getOrCreate<T>(pool: Map<string, Promise<T>>, path: string, create: () => Promise<T>): Promise<T> {
+    let pending = pool.get(path)
+    if (!pending) {
+        pending = create()
+        pool.set(path, pending)
+        // allow a later retry if the import failed
+        pending.catch(() => pool.delete(path))
+    }
+    return pending
+}
+
+/**
+ * Shared DRACOLoader for a decoder path
+ */
+export function getSharedDRACOLoader(decoderPath = globalConfig.dracoDecoderPath): Promise<DRACOLoader> {
+    return getOrCreate(dracoLoaders, decoderPath, async () => {
+        const { DRACOLoader } = await import('three/examples/jsm/loaders/DRACOLoader.js')
+        return new DRACOLoader().setDecoderPath(decoderPath).setWorkerLimit(globalConfig.dracoWorkerLimit)
+    })
+}
+
+/**
+ * Shared KTX2Loader configured for the renderer / capability set of the global config
+ * @returns null when neither `renderer` nor `ktx2Capabilities` is configured
+ */
+export async function getSharedKTX2Loader(transcoderPath = globalConfig.ktx2TranscoderPath): Promise<KTX2Loader | null> {
+    const { renderer, ktx2Capabilities } = globalConfig
+    if (!renderer && !ktx2Capabilities) return null
+
+    const loader = await getOrCreate(ktx2Loaders, transcoderPath, async () => {
+        const { KTX2Loader } = await import('three/examples/jsm/loaders/KTX2Loader.js')
+        const loader = new KTX2Loader().setTranscoderPath(transcoderPath).setWorkerLimit(globalConfig.ktx2WorkerLimit)
+        if (renderer) return loader.detectSupport(renderer)
+        return Object.assign<KTX2Loader, KTX2TranscodeTarget>(loader, { workerConfig: { ...NO_KTX2_SUPPORT, ...ktx2Capabilities } })
+    })
+    return applyRequestConfig(loader)
+}
+
+/** Transcode target read by KTX2Loader's workers, normally set by `detectSupport` (not in the typings) */
+interface KTX2TranscodeTarget {
+    workerConfig: Required<KTX2Capabilities>
+}
+
+const NO_KTX2_SUPPORT: Required<KTX2Capabilities> = {
+    astcSupported: false,
+    astcHDRSupported: false,
+    etc1Supported: false,
+    etc2Supported: false,
+    dxtSupported: false,
+    bptcSupported: false,
+    pvrtcSupported: false,
+}
+
+/**
+ * Shared MeshoptDecoder (EXT_meshopt_compression), ready to decode
+ */
+export function getSharedMeshoptDecoder(): Promise<SharedMeshoptDecoder> {
+    if (!meshoptDecoder) {
+        meshoptDecoder = import('three/examples/jsm/libs/meshopt_decoder.module.js').then(async ({ MeshoptDecoder }) => {
+            const decoder = MeshoptDecoder as SharedMeshoptDecoder
+            await decoder.ready
+            useMeshoptWorkers(decoder)
+            return decoder
+        })
+        meshoptDecoder.catch(() => { meshoptDecoder = null })
+    }
+    return meshoptDecoder
+}
+
+function useMeshoptWorkers(decoder: SharedMeshoptDecoder) {
+    if (typeof Worker === 'undefined') return
+    decoder.useWorkers(Math.max(0, globalConfig.meshoptWorkerCount))
+}
+
+/**
+ * Dispose every shared decoder and terminate its workers (e.g. when leaving a 3D view).
+ * Call it when no load is in flight; decoders are created again on the next load that needs them.
+ */
+export function disposeDecoders() {
+    disposeDecoderPool(dracoLoaders)
+    disposeDecoderPool(ktx2Loaders)
+    meshoptDecoder?.then((decoder) => {
+        if (typeof Worker !== 'undefined') decoder.useWorkers(0)
+    }, () => { })
+    meshoptDecoder = null
+}
+
+function disposeDecoderPool(pool: Map<string, Promise<{ dispose(): unknown }>>) {
+    pool.forEach((pending) => pending.then((decoder) => decoder.dispose(), () => { }))
+    pool.clear()
+}
@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import * as fflate from 'three/examples/jsm/libs/fflate.module.js'
+import { getUrlExtension, sniffModelFormat, formatFromContentType } from './formatDetection'
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer
+
+const { zipSync, strToU8 } = fflate as unknown as {
+    zipSync(files: Record<string, Uint8Array>, options?: { level?: number }): Uint8Array
+    strToU8(text: string): Uint8Array
+}
+
+function zip(files: Record<string, string>, level?: number): ArrayBuffer {
+    const entries: Record<string, Uint8Array> = {}
+    Object.entries(files).forEach(([path, content]) => { entries[path] = strToU8(content) })
+    return zipSync(entries, { level }).slice().buffer as ArrayBuffer
+}
+
+describe('getUrlExtension', () => {
+    it('should strip query strings and hash fragments', () => {
+        expect(getUrlExtension('https://cdn/a.b/model.GLB?token=x.y#z')).toBe('glb')
+        expect(getUrlExtension('model.stl#view')).toBe('stl')
+    })
+
+    it('should return empty string for extensionless paths', () => {
+        expect(getUrlExtension('https://api.example.com/v1.2/models/42')).toBe('')
+        expect(getUrlExtension('https://api.example.com/models/42?format=glb')).toBe('')
+    })
+})
+
+describe('sniffModelFormat', () => {
+    it('should detect text headers', () => {
+        expect(sniffModelFormat(encode('ply\nformat ascii 1.0\n'))).toBe('ply')
+        expect(sniffModelFormat(encode('solid part\n facet normal 0 0 1\n'))).toBe('stl')
+        expect(sniffModelFormat(encode('{ "asset": { "version": "2.0" } }'))).toBe('gltf')
+        expect(sniffModelFormat(encode('; FBX 7.4.0 project file'))).toBe('fbx')
+        expect(sniffModelFormat(encode('# exported\nmtllib part.mtl\nv 0 0 0\n'))).toBe('obj')
+        expect(sniffModelFormat(encode('# .PCD v0.7 - Point Cloud Data file format\nVERSION 0.7\n'))).toBe('pcd')
+        expect(sniffModelFormat(encode('2\n0.1 0.2 0.3 120 255 0 0\n1.5,2.5,3.5,40,0,255,0\n'))).toBe('xyz')
+    })
+
+    it('should detect binary headers', () => {
+        expect(sniffModelFormat(encode('glTF\u0002\u0000\u0000\u0000'))).toBe('glb')
+        expect(sniffModelFormat(encode('Kaydara FBX Binary  \u0000'))).toBe('fbx')
+
+        // Binary STL whose header starts with "solid", one triangle
+        const stl = new ArrayBuffer(84 + 50)
+        new Uint8Array(stl).set(new TextEncoder().encode('solid binary'))
+        new DataView(stl).setUint32(80, 1, true)
+        expect(sniffModelFormat(stl)).toBe('stl')
+    })
+
+    it('should tell 3MF packages from zip bundles by their entry names', () => {
+        // a bundle with a 3D/ folder is still a bundle
+        expect(sniffModelFormat(zip({ '3D/pump.glb': 'glTF', 'readme.txt': '' }))).toBe('zip')
+        expect(sniffModelFormat(zip({ '_rels/.rels': '', '3D/3dmodel.model': '<model/>' }))).toBe('3mf')
+        // other OPC packages (docx, xlsx, nupkg) have content types too
+        expect(sniffModelFormat(zip({ '[Content_Types].xml': '<Types/>', '_rels/.rels': '', 'word/document.xml': '' }))).toBe('zip')
+        // the model part sits behind a long first entry, past the first kilobyte
+        expect(sniffModelFormat(zip({ '[Content_Types].xml': ' '.repeat(4096), '3D/3dmodel.model': '<model/>' }, 0))).toBe('3mf')
+        expect(sniffModelFormat(zip({ 'Metadata/thumbnail.png': ' '.repeat(4096), '3D/3dmodel.model': '<model/>' }, 0))).toBe('3mf')
+    })
+
+    it('should return null for unknown data', () => {
+        expect(sniffModelFormat(new ArrayBuffer(8))).toBeNull()
+    })
+})
+
+describe('formatFromContentType', () => {
+    it('should ignore parameters and unknown types', () => {
+        expect(formatFromContentType('model/gltf-binary; charset=binary')).toBe('glb')
+        expect(formatFromContentType('application/zip')).toBe('zip')
+        expect(formatFromContentType('application/octet-stream')).toBeNull()
+        expect(formatFromContentType(null)).toBeNull()
+    })
+})
@@ -0,0 +1,123 @@
+/**
+ * @file formatDetection.ts
+ * @description
+ * Helpers to work out a model's format without trusting `url.split('.').pop()`:
+ * URL extension parsing (query/hash aware), magic-byte sniffing and Content-Type mapping.
+ *
+ * @best-practice
+ * - Prefer an explicit `format` option when the source is known (API endpoints, blobs).
+ * - `getUrlExtension` handles signed URLs (`model.glb?token=...`) and hash fragments.
+ * - `sniffModelFormat` only reads the first bytes (and the first zip entry headers), so it is cheap even for large files.
+ */
+
+/** Bytes inspected when looking for text headers */
+const SNIFF_LENGTH = 1024
+
+/** Zip entry of a 3MF package's model part ([Content_Types].xml alone is in every OPC package: docx, xlsx...) */
+const THREE_MF_MODEL = '3d/3dmodel.model'
+
+/** Zip entries listed when telling 3MF packages from zip bundles */
+const MAX_ZIP_ENTRIES = 16
+
+/** Content-Type (without parameters) -> format */
+const CONTENT_TYPE_FORMATS: Record<string, string> = {
+  'model/gltf-binary': 'glb',
+  'model/gltf+json': 'gltf',
+  'model/stl': 'stl',
+  'model/x.stl-binary': 'stl',
+  'model/x.stl-ascii': 'stl',
+  'application/sla': 'stl',
+  'application/vnd.ms-pki.stl': 'stl',
+  'model/obj': 'obj',
+  'application/ply': 'ply',
+  'model/vnd.fbx': 'fbx',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+}
+
+/**
+ * Get the lowercase file extension of a URL or file name, ignoring query string and hash
+ * @example getUrlExtension('https://cdn/a/model.GLB?token=1#part') // 'glb'
+ * @returns Extension without dot, or '' when the last path segment has none
+ */
+export function getUrlExtension(url: string): string {
+  const path = url.split('#')[0].split('?')[0]
+  const name = path.substring(path.lastIndexOf('/') + 1)
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.substring(dot + 1).toLowerCase() : ''
+}
+
+/**
+ * Map a response Content-Type to a model format
+ * @returns Format, or null for unknown / generic types (e.g. application/octet-stream)
+ */
+export function formatFromContentType(contentType: string | null | undefined): string | null {
+  if (!contentType) return null
+  const mime = contentType.split(';')[0].trim().toLowerCase()
+  return CONTENT_TYPE_FORMATS[mime] ?? null
+}
+
+/**
+ * Detect a model format from its first bytes
+ * Recognizes binary glTF, glTF JSON, FBX (binary & ASCII), PLY, STL (binary & ASCII), OBJ, 3MF, zip bundles,
+ * PCD and XYZ point clouds
+ * @returns Format, or null when nothing matches
+ */
+export function sniffModelFormat(data: ArrayBuffer): string | null {
+  const bytes = new Uint8Array(data, 0, Math.min(SNIFF_LENGTH, data.byteLength))
+  const header = new TextDecoder().decode(bytes)
+
+  if (header.startsWith('glTF')) return 'glb'
+  if (header.startsWith('Kaydara FBX Binary')) return 'fbx'
+  if (/^ply\r?\n/.test(header)) return 'ply'
+  // Zip local file header: 3MF packages hold a 3D/3dmodel.model part, anything else goes to the bundle loader
+  if (header.startsWith('PK\x03\x04')) return zipEntryNames(data).includes(THREE_MF_MODEL) ? '3mf' : 'zip'
+
+  // Binary STL: 80-byte header + uint32 triangle count + 50 bytes per triangle.
+  // Checked before ASCII because binary headers often start with "solid" too.
+  if (data.byteLength >= 84) {
+    const triangles = new DataView(data).getUint32(80, true)
+    if (84 + triangles * 50 === data.byteLength) return 'stl'
+  }
+
+  const text = header.trimStart()
+  if (/^solid\b/.test(text) && /\bfacet\b/.test(text)) return 'stl'
+  if (text.startsWith('; FBX')) return 'fbx'
+  if (text.startsWith('{') && /"asset"\s*:/.test(text)) return 'gltf'
+
+  // OBJ: first statement that is not a comment is a known keyword
+  const firstStatement = text.split(/\r?\n/).map((l) => l.trim()).find((l) => l && !l.startsWith('#'))
+  if (firstStatement && /^(v|vn|vt|o|g|f|s|mtllib|usemtl)\s/.test(firstStatement)) return 'obj'
+
+  if (/^(# \.PCD|VERSION\s)/.test(text)) return 'pcd'
+
+  // XYZ / PTS: rows of 3 to 7 numbers (PTS starts with the point count); the last line may be cut off
+  const rows = text.split(/\r?\n/).slice(0, -1).map((l) => l.trim()).filter((l) => l && !l.startsWith('#'))
+  const numeric = (row: string) => row.split(/[\s,]+/).every((v) => v !== '' && !Number.isNaN(Number(v)))
+  const points = /^\d+$/.test(rows[0] ?? '') ? rows.slice(1) : rows
+  if (points.length && points.every((row) => numeric(row) && /^(\S+[\s,]+){2,6}\S+$/.test(row))) return 'xyz'
+
+  return null
+}
+
+/**
+ * Lowercase file names of the first local headers of a zip
+ * - Stops at the first entry whose size is only written after its data (streamed zips)
+ */
+function zipEntryNames(data: ArrayBuffer): string[] {
+  const view = new DataView(data)
+  const decoder = new TextDecoder()
+  const names: string[] = []
+  let offset = 0
+  while (names.length < MAX_ZIP_ENTRIES && offset + 30 <= data.byteLength && view.getUint32(offset, true) === 0x04034b50) {
+    const flags = view.getUint16(offset + 6, true)
+    const compressedSize = view.getUint32(offset + 18, true)
+    const nameLength = view.getUint16(offset + 26, true)
+    const extraLength = view.getUint16(offset + 28, true)
+    if (offset + 30 + nameLength > data.byteLength) break
+    names.push(decoder.decode(new Uint8Array(data, offset + 30, nameLength)).toLowerCase())
+    if (flags & 0x08) break
+    offset += 30 + nameLength + extraLength + compressedSize
+  }
+  return names
+}
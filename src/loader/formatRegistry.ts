@@ -0,0 +1,292 @@
+/**
+ * @file formatRegistry.ts
+ * @description
+ * Registry mapping model formats (file extensions) to parser factories used by `loadModelByUrl`
+ * and `loadModelFromData`. Third parties can plug in their own formats without forking.
+ *
+ * @best-practice
+ * - Call `registerModelFormat` once at startup, before loading models of that format.
+ * - Import loaders lazily inside the factory so unused formats stay out of the bundle.
+ * - Return an Object3D, a BufferGeometry or a `{ scene, animations }` record; every format then
+ *   goes through the same post-processing pipeline (texture downscale, merge, cache...).
+ */
+
+import * as THREE from 'three'
+import type { LoadOptions } from './modelLoader'
+import { applyRequestConfig, getSharedDRACOLoader, getSharedKTX2Loader, getSharedMeshoptDecoder } from './config'
+import { prepareMaterialVariants } from './materialVariants'
+import { openZipBundle } from './zipBundle'
+import { markScanPoints } from '../core/pointCloud'
+
+/** What a parser may produce; normalized to an Object3D by the loader */
+export type ModelParseResult =
+  | THREE.Object3D
+  | THREE.BufferGeometry
+  | { scene: THREE.Object3D; animations?: THREE.AnimationClip[] }
+
+/** Parses the downloaded bytes of one model */
+export type ModelParser = (data: ArrayBuffer, resourcePath: string) => ModelParseResult | Promise<ModelParseResult>
+
+/** Context passed to a factory for each load */
+export interface ModelFormatContext {
+  /**
+   * Loading manager of the current load (use it for dependent resources).
+   * Also call `applyRequestConfig(loader)` so headers/credentials of the global config apply.
+   */
+  manager: THREE.LoadingManager
+  /** Normalized load options */
+  options: LoadOptions
+}
+
+/** Creates the parser for one load; may be async to import loaders on demand */
+export type ModelFormatFactory = (context: ModelFormatContext) => ModelParser | Promise<ModelParser>
+
+const registry = new Map<string, ModelFormatFactory>()
+
+function normalizeExt(ext: string): string {
+  return ext.replace(/^\./, '').toLowerCase()
+}
+
+/**
+ * Register (or replace) the parser factory for one or more extensions
+ * @example
+ * registerModelFormat('vtk', async ({ manager }) => {
+ *   const { VTKLoader } = await import('three/examples/jsm/loaders/VTKLoader.js')
+ *   const loader = applyRequestConfig(new VTKLoader(manager))
+ *   return (data) => loader.parse(data, '')
+ * })
+ */
+export function registerModelFormat(ext: string | string[], factory: ModelFormatFactory) {
+  const exts = Array.isArray(ext) ? ext : [ext]
+  exts.forEach((e) => registry.set(normalizeExt(e), factory))
+}
+
+/** Remove a registered format */
+export function unregisterModelFormat(ext: string) {
+  registry.delete(normalizeExt(ext))
+}
+
+/** Whether a parser is registered for the extension */
+export function isModelFormatRegistered(ext: string): boolean {
+  return registry.has(normalizeExt(ext))
+}
+
+/** List registered extensions */
+export function getRegisteredModelFormats(): string[] {
+  return Array.from(registry.keys())
+}
+
+/** Get the factory for an extension (undefined if not registered) */
+export function getModelFormatFactory(ext: string): ModelFormatFactory | undefined {
+  return registry.get(normalizeExt(ext))
+}
+
+/* ---------------------
+   Built-in Formats
+   --------------------- */
+
+const decodeText = (data: ArrayBuffer) => new TextDecoder().decode(data)
+
+registerModelFormat(['gltf', 'glb'], async ({ manager, options }) => {
+  const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js')
+  const gltfLoader = applyRequestConfig(new GLTFLoader(manager))
+
+  if (options.dracoDecoderPath) gltfLoader.setDRACOLoader(await getSharedDRACOLoader(options.dracoDecoderPath))
+
+  const ktx2Loader = options.useKTX2 && options.ktx2TranscoderPath
+    ? await getSharedKTX2Loader(options.ktx2TranscoderPath)
+    : null
+  if (ktx2Loader) gltfLoader.setKTX2Loader(ktx2Loader)
+
+  return async (data, resourcePath) => {
+    const { used, required } = readGLTFExtensions(data)
+    if (!ktx2Loader && required.includes('KHR_texture_basisu')) {
+      throw new Error(options.useKTX2
+        ? 'Model has KTX2 textures but no renderer was provided: call setLoaderConfig({ renderer }) (or { ktx2Capabilities }) first'
+        : 'Model has KTX2 textures but useKTX2 is disabled')
+    }
+    // The meshopt decoder is only fetched for models that use it
+    if (used.includes('EXT_meshopt_compression')) gltfLoader.setMeshoptDecoder(await getSharedMeshoptDecoder())
+    const gltf = await new Promise<any>((resolve, reject) => {
+      gltfLoader.parse(data, resourcePath, resolve, reject)
+    })
+    if (used.includes('KHR_materials_variants')) await prepareMaterialVariants(gltf)
+    return gltf
+  }
+})
+
+/** `extensionsUsed` / `extensionsRequired` of a .gltf / .glb file (empty when it cannot be read) */
+function readGLTFExtensions(data: ArrayBuffer): { used: string[]; required: string[] } {
+  const none = { used: [], required: [] }
+  try {
+    const view = new DataView(data)
+    let json: string
+    if (data.byteLength >= 20 && view.getUint32(0, true) === 0x46546c67) {
+      // GLB: 'glTF' magic, 12-byte header, then the JSON chunk (length, type, payload)
+      json = decodeText(data.slice(20, 20 + view.getUint32(12, true)))
+    } else {
+      json = decodeText(data)
+      if (!json.includes('extensionsUsed')) return none
+    }
+    const { extensionsUsed, extensionsRequired } = JSON.parse(json)
+    return { used: extensionsUsed ?? [], required: extensionsRequired ?? [] }
+  } catch {
+    return none
+  }
+}
+
+registerModelFormat('fbx', async ({ manager }) => {
+  const { FBXLoader } = await import('three/examples/jsm/loaders/FBXLoader.js')
+  const fbxLoader = applyRequestConfig(new FBXLoader(manager))
+  return (data, resourcePath) => fbxLoader.parse(data, resourcePath)
+})
+
+registerModelFormat('obj', async ({ manager }) => {
+  const { OBJLoader } = await import('three/examples/jsm/loaders/OBJLoader.js')
+  const objLoader = applyRequestConfig(new OBJLoader(manager))
+  return async (data, resourcePath) => {
+    const text = decodeText(data)
+    // Material libraries referenced by `mtllib` are loaded next to the OBJ
+    const libraries = Array.from(text.matchAll(/^mtllib\s+(.+?)\s*$/gm), (match) => match[1])
+    if (libraries.length) {
+      const materials = await loadMTL(libraries, resourcePath, manager)
+      if (materials) objLoader.setMaterials(materials)
+    }
+    return objLoader.parse(text)
+  }
+})
+
+/** Load and merge MTL libraries; null when none could be loaded */
+async function loadMTL(libraries: string[], resourcePath: string, manager: THREE.LoadingManager) {
+  const { MTLLoader } = await import('three/examples/jsm/loaders/MTLLoader.js')
+  const creators = []
+  for (const library of libraries) {
+    try {
+      creators.push(await applyRequestConfig(new MTLLoader(manager)).loadAsync(resourcePath + library))
+    } catch (e) {
+      console.warn(`OBJ material library failed to load: ${library}`, e)
+    }
+  }
+  if (creators.length === 0) return null
+  const [materials, ...others] = creators
+  if (others.length) materials.setMaterials(Object.assign({}, ...creators.map((c) => c.materialsInfo)))
+  materials.preload()
+  return materials
+}
+
+registerModelFormat('ply', async ({ manager }) => {
+  const { PLYLoader } = await import('three/examples/jsm/loaders/PLYLoader.js')
+  const plyLoader = applyRequestConfig(new PLYLoader(manager))
+  return (data) => {
+    // Scanner exports name their reflectance 'intensity' (CloudCompare: 'scalar_intensity')
+    const intensity = readPLYHeader(data).match(/^property\s+\S+\s+((?:scalar_)?intensity)\s*$/m)
+    plyLoader.setCustomPropertyNameMapping(intensity ? { intensity: [intensity[1]] } : {})
+    const geometry = plyLoader.parse(data)
+    // PLY without faces is a point cloud
+    return geometry.index ? geometry : markScanPoints(new THREE.Points(geometry))
+  }
+})
+
+/** Text header of a PLY file, up to `end_header` */
+function readPLYHeader(data: ArrayBuffer): string {
+  const head = decodeText(data.slice(0, Math.min(data.byteLength, 4096)))
+  const end = head.indexOf('end_header')
+  return end >= 0 ? head.substring(0, end) : head
+}
+
+registerModelFormat('stl', async ({ manager }) => {
+  const { STLLoader } = await import('three/examples/jsm/loaders/STLLoader.js')
+  const stlLoader = applyRequestConfig(new STLLoader(manager))
+  return (data) => stlLoader.parse(data)
+})
+
+registerModelFormat(['xyz', 'pts'], () => (data) => markScanPoints(new THREE.Points(parseXYZ(decodeText(data)))))
+
+/**
+ * XYZ / PTS text point clouds, one point per line: `x y z`, `x y z intensity`, `x y z r g b`
+ * or `x y z intensity r g b` (separated by spaces or commas; shorter lines such as the PTS count are skipped)
+ */
+function parseXYZ(text: string): THREE.BufferGeometry {
+  const positions: number[] = []
+  const intensities: number[] = []
+  const colors: number[] = []
+  let byteColors = false
+  text.split(/\r?\n/).forEach((line) => {
+    const values = line.trim().split(/[\s,]+/).map(Number)
+    if (values.length < 3 || values.slice(0, 3).some(Number.isNaN)) return
+    positions.push(values[0], values[1], values[2])
+    if (values.length === 4 || values.length === 7) intensities.push(values[3])
+    if (values.length >= 6) {
+      const rgb = values.slice(values.length - 3)
+      if (rgb.some((v) => v > 1)) byteColors = true
+      colors.push(...rgb)
+    }
+  })
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  // mixed lines would misalign the optional columns: keep them only when every point has them
+  const count = positions.length / 3
+  if (intensities.length === count) geometry.setAttribute('intensity', new THREE.Float32BufferAttribute(intensities, 1))
+  if (colors.length === count * 3) {
+    const color = new THREE.Color()
+    for (let i = 0; i < colors.length; i += 3) {
+      const scale = byteColors ? 1 / 255 : 1
+      color.setRGB(colors[i] * scale, colors[i + 1] * scale, colors[i + 2] * scale, THREE.SRGBColorSpace).toArray(colors, i)
+    }
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
+  }
+  geometry.computeBoundingSphere()
+  return geometry
+}
+
+registerModelFormat('pcd', async ({ manager }) => {
+  const { PCDLoader } = await import('three/examples/jsm/loaders/PCDLoader.js')
+  const pcdLoader = applyRequestConfig(new PCDLoader(manager))
+  return (data) => markScanPoints(pcdLoader.parse(data))
+})
+
+registerModelFormat('3mf', async ({ manager }) => {
+  const { ThreeMFLoader } = await import('three/examples/jsm/loaders/3MFLoader.js')
+  const threeMFLoader = applyRequestConfig(new ThreeMFLoader(manager))
+  return (data) => threeMFLoader.parse(data)
+})
+
+registerModelFormat('dae', async ({ manager }) => {
+  const { ColladaLoader } = await import('three/examples/jsm/loaders/ColladaLoader.js')
+  const colladaLoader = applyRequestConfig(new ColladaLoader(manager))
+  return (data, resourcePath) => colladaLoader.parse(decodeText(data), resourcePath)
+})
+
+registerModelFormat('3ds', async ({ manager }) => {
+  const { TDSLoader } = await import('three/examples/jsm/loaders/TDSLoader.js')
+  const tdsLoader = applyRequestConfig(new TDSLoader(manager))
+  return (data, resourcePath) => tdsLoader.parse(data, resourcePath)
+})
+
+registerModelFormat('usdz', async ({ manager }) => {
+  const { USDZLoader } = await import('three/examples/jsm/loaders/USDZLoader.js')
+  const usdzLoader = applyRequestConfig(new USDZLoader(manager))
+  return (data) => usdzLoader.parse(data)
+})
+
+registerModelFormat(['wrl', 'vrml'], async ({ manager }) => {
+  const { VRMLLoader } = await import('three/examples/jsm/loaders/VRMLLoader.js')
+  const vrmlLoader = applyRequestConfig(new VRMLLoader(manager))
+  return (data, resourcePath) => vrmlLoader.parse(decodeText(data), resourcePath)
+})
+
+registerModelFormat('zip', ({ manager, options }) => async (data) => {
+  const bundle = await openZipBundle(data, manager, {
+    entry: options.bundleEntry,
+    isFormatSupported: (format) => format !== 'zip' && isModelFormatRegistered(format),
+  })
+  try {
+    // The main file is parsed by its own format, resolving sibling files to the zip entries
+    const factory = getModelFormatFactory(bundle.format)!
+    const parse = await factory({ manager: bundle.manager, options: { ...options, format: bundle.format } })
+    return await parse(bundle.data, '')
+  } finally {
+    bundle.release()
+  }
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { optimizeGeometries } from './geometryOptimizer'
+
+/** Non-indexed box without normals, like a raw CAD export */
+function rawBoxMesh(): THREE.Mesh {
+    const geometry = new THREE.BoxGeometry(2, 2, 2).toNonIndexed()
+    geometry.deleteAttribute('normal')
+    geometry.deleteAttribute('uv')
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial())
+    mesh.position.set(1, 2, 3)
+    return mesh
+}
+
+describe('geometryOptimizer', () => {
+    it('should weld duplicate vertices and report counts before and after', async () => {
+        const mesh = rawBoxMesh()
+        const report = await optimizeGeometries(mesh, { weld: true })
+
+        expect(report.before).toMatchObject({ geometries: 1, vertices: 36, triangles: 12 })
+        expect(report.after).toMatchObject({ geometries: 1, vertices: 8, triangles: 12 })
+        expect(mesh.geometry.index).not.toBeNull()
+    })
+
+    it('should keep hard edges when generating normals with a crease angle', async () => {
+        const mesh = rawBoxMesh()
+        const report = await optimizeGeometries(mesh, { creaseAngle: 30, weld: true })
+
+        // each cube corner keeps one vertex per adjacent face
+        expect(report.after.vertices).toBe(24)
+        const normal = mesh.geometry.attributes.normal
+        const n = new THREE.Vector3().fromBufferAttribute(normal as THREE.BufferAttribute, 0)
+        expect(Math.max(Math.abs(n.x), Math.abs(n.y), Math.abs(n.z))).toBeCloseTo(1)
+    })
+
+    it('should quantize positions without moving the mesh in world space', async () => {
+        const mesh = rawBoxMesh()
+        const before = new THREE.Box3().setFromObject(mesh)
+        const report = await optimizeGeometries(mesh, { generateIndex: true, quantize: true })
+
+        expect(mesh.geometry.attributes.position.array).toBeInstanceOf(Int16Array)
+        expect(report.after.bytes).toBeLessThan(report.before.bytes)
+        const after = new THREE.Box3().setFromObject(mesh)
+        expect(after.min.distanceTo(before.min)).toBeLessThan(1e-3)
+        expect(after.max.distanceTo(before.max)).toBeLessThan(1e-3)
+    })
+
+    it('should keep world-space normals when quantizing a non-cubic part', async () => {
+        const geometry = new THREE.BoxGeometry(10, 1, 1)
+        // bevel-like normal, off the box axes
+        geometry.attributes.normal.setXYZ(0, Math.SQRT1_2, Math.SQRT1_2, 0)
+        const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial())
+        const before = new THREE.Box3().setFromObject(mesh)
+        await optimizeGeometries(mesh, { quantize: true })
+
+        mesh.updateMatrixWorld()
+        const normalMatrix = new THREE.Matrix3().getNormalMatrix(mesh.matrixWorld)
+        const normal = new THREE.Vector3().fromBufferAttribute(mesh.geometry.attributes.normal as THREE.BufferAttribute, 0)
+            .applyMatrix3(normalMatrix).normalize()
+        expect(normal.x).toBeCloseTo(Math.SQRT1_2, 2)
+        expect(normal.y).toBeCloseTo(Math.SQRT1_2, 2)
+        const after = new THREE.Box3().setFromObject(mesh)
+        expect(after.max.distanceTo(before.max)).toBeLessThan(1e-3)
+    })
+})
@@ -0,0 +1,225 @@
+/**
+ * @file geometryOptimizer.ts
+ * @description
+ * Post-load geometry passes for raw CAD exports: crease-angle normals, vertex welding / index generation,
+ * tangents and attribute quantization, with a report of vertex/triangle counts before and after.
+ *
+ * @best-practice
+ * - Use through `loadModelByUrl(url, { geometry: { ... } })`; the report lands on `userData.geometryReport`.
+ * - Weld tolerance is in model units: 1e-4 suits meters, use a larger value for millimeter exports.
+ * - Normals are generated before welding so hard edges (above `creaseAngle`) survive the weld.
+ * - Quantized positions are rescaled through the mesh transform, so world-space results are unchanged.
+ * - The loader quantizes last, after merging, instancing and LOD, which need float positions.
+ */
+
+import * as THREE from 'three'
+import type { MergedPart } from '../core/mergedParts'
+
+export interface GeometryOptimizeOptions {
+  /** Weld vertices closer than this distance (true = 1e-4 model units); also generates an index */
+  weld?: boolean | number
+  /** Index non-indexed geometries, sharing exactly duplicated vertices */
+  generateIndex?: boolean
+  /** Generate missing normals, keeping edges sharper than this angle (degrees) hard */
+  creaseAngle?: number | null
+  /** Also replace existing normals when `creaseAngle` is set (default false) */
+  recomputeNormals?: boolean
+  /** Compute tangents for meshes with a normal map (needs uv and normals) */
+  tangents?: boolean
+  /** Store attributes as normalized integers: positions int16, normals/tangents int8, uvs uint16 */
+  quantize?: boolean
+}
+
+export interface GeometryStats {
+  /** Unique geometries */
+  geometries: number
+  vertices: number
+  triangles: number
+  /** Bytes of vertex and index buffers */
+  bytes: number
+}
+
+export interface GeometryReport {
+  before: GeometryStats
+  after: GeometryStats
+}
+
+const DEFAULT_WELD_TOLERANCE = 1e-4
+/** Exact duplicates only (mergeVertices needs a non-zero tolerance) */
+const INDEX_TOLERANCE = 1e-6
+
+/**
+ * Run the requested geometry passes on every mesh of `root`
+ * - Shared geometries are processed once; the result is assigned to every mesh using them
+ * - Replaced geometries are disposed
+ */
+export async function optimizeGeometries(root: THREE.Object3D, options: GeometryOptimizeOptions): Promise<GeometryReport> {
+  const users = collectGeometryUsers(root)
+  const before = getGeometryStats(users.keys())
+
+  const BufferGeometryUtils = await import('three/examples/jsm/utils/BufferGeometryUtils.js')
+  const weldTolerance = options.weld === true ? DEFAULT_WELD_TOLERANCE : options.weld || null
+
+  users.forEach((meshes, original) => {
+    let geometry = original
+    const replace = (next: THREE.BufferGeometry) => {
+      if (next !== geometry && geometry !== original) geometry.dispose()
+      geometry = next
+    }
+
+    if (hasInterleavedAttributes(geometry)) {
+      replace(geometry.clone())
+      BufferGeometryUtils.deinterleaveGeometry(geometry)
+    }
+
+    if (options.creaseAngle != null && (options.recomputeNormals || !geometry.attributes.normal)) {
+      replace(BufferGeometryUtils.toCreasedNormals(geometry === original ? geometry.clone() : geometry, THREE.MathUtils.degToRad(options.creaseAngle)))
+    }
+
+    if (weldTolerance) {
+      replace(BufferGeometryUtils.mergeVertices(geometry, weldTolerance))
+    } else if (options.generateIndex && !geometry.index) {
+      replace(BufferGeometryUtils.mergeVertices(geometry, INDEX_TOLERANCE))
+    }
+
+    if (options.tangents && meshes.some(hasNormalMap)) {
+      const { index, attributes } = geometry
+      if (index && attributes.position && attributes.normal && attributes.uv) {
+        if (geometry === original) replace(geometry.clone())
+        geometry.computeTangents()
+      }
+    }
+
+    if (options.quantize) {
+      if (geometry === original) replace(geometry.clone())
+      quantizeGeometry(geometry, meshes)
+    }
+
+    if (geometry !== original) {
+      meshes.forEach((mesh) => { mesh.geometry = geometry })
+      original.dispose()
+    }
+  })
+
+  return { before, after: getGeometryStats(collectGeometryUsers(root).keys()) }
+}
+
+/**
+ * Vertex / triangle / byte counts of the unique mesh geometries of an object
+ */
+export function getObjectGeometryStats(root: THREE.Object3D): GeometryStats {
+  return getGeometryStats(collectGeometryUsers(root).keys())
+}
+
+/* ---------------------
+   Helpers
+   --------------------- */
+
+function collectGeometryUsers(root: THREE.Object3D): Map<THREE.BufferGeometry, THREE.Mesh[]> {
+  const users = new Map<THREE.BufferGeometry, THREE.Mesh[]>()
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh
+    if (!mesh.isMesh || !mesh.geometry?.attributes.position) return
+    const list = users.get(mesh.geometry) ?? []
+    list.push(mesh)
+    users.set(mesh.geometry, list)
+  })
+  return users
+}
+
+function getGeometryStats(geometries: Iterable<THREE.BufferGeometry>): GeometryStats {
+  const stats: GeometryStats = { geometries: 0, vertices: 0, triangles: 0, bytes: 0 }
+  const arrays = new Set<ArrayBufferView>()
+  for (const geometry of geometries) {
+    const position = geometry.attributes.position
+    stats.geometries++
+    stats.vertices += position.count
+    stats.triangles += Math.floor((geometry.index ? geometry.index.count : position.count) / 3)
+    Object.values(geometry.attributes).forEach((attr: any) => arrays.add(attr.isInterleavedBufferAttribute ? attr.data.array : attr.array))
+    if (geometry.index) arrays.add(geometry.index.array)
+  }
+  arrays.forEach((a) => { stats.bytes += a.byteLength })
+  return stats
+}
+
+function hasInterleavedAttributes(geometry: THREE.BufferGeometry): boolean {
+  return Object.values(geometry.attributes).some((attr: any) => attr.isInterleavedBufferAttribute)
+}
+
+function hasNormalMap(mesh: THREE.Mesh): boolean {
+  const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+  return materials.some((mat: any) => !!mat?.normalMap)
+}
+
+/** Replace float attributes with normalized integer ones */
+function quantizeGeometry(geometry: THREE.BufferGeometry, meshes: THREE.Mesh[]) {
+  const { attributes } = geometry
+  if (attributes.normal) quantizeUnit(geometry, 'normal')
+  if (attributes.tangent) quantizeUnit(geometry, 'tangent')
+  if (attributes.uv) quantizeUV(geometry, 'uv')
+
+  // Positions need the mesh transform to absorb offset and scale: only for plain meshes
+  const movable = meshes.every((m) => !(m as any).isSkinnedMesh && !(m as any).isInstancedMesh && m.children.length === 0)
+  if (movable && !geometry.morphAttributes.position) quantizePositions(geometry, meshes)
+}
+
+function isPlainFloat(attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined): attr is THREE.BufferAttribute {
+  return !!attr && !(attr as any).isInterleavedBufferAttribute && attr.array instanceof Float32Array
+}
+
+/** Components in [-1, 1] (normals, tangents) -> int8 */
+function quantizeUnit(geometry: THREE.BufferGeometry, name: string) {
+  const attr = geometry.getAttribute(name)
+  if (!isPlainFloat(attr)) return
+  const out = new Int8Array(attr.array.length)
+  attr.array.forEach((v, i) => { out[i] = Math.round(THREE.MathUtils.clamp(v, -1, 1) * 127) })
+  geometry.setAttribute(name, new THREE.BufferAttribute(out, attr.itemSize, true))
+}
+
+/** UVs in [0, 1] -> uint16 (tiling UVs outside the range stay float) */
+function quantizeUV(geometry: THREE.BufferGeometry, name: string) {
+  const attr = geometry.getAttribute(name)
+  if (!isPlainFloat(attr) || attr.array.some((v) => v < 0 || v > 1)) return
+  const out = new Uint16Array(attr.array.length)
+  attr.array.forEach((v, i) => { out[i] = Math.round(v * 65535) })
+  geometry.setAttribute(name, new THREE.BufferAttribute(out, attr.itemSize, true))
+}
+
+/** Positions -> int16 in the bounding cube, compensated by each mesh's transform (uniform scale + offset) */
+function quantizePositions(geometry: THREE.BufferGeometry, meshes: THREE.Mesh[]) {
+  const attr = geometry.getAttribute('position')
+  if (!isPlainFloat(attr)) return
+
+  geometry.computeBoundingBox()
+  const box = geometry.boundingBox!
+  const center = box.getCenter(new THREE.Vector3())
+  const size = box.getSize(new THREE.Vector3())
+  // one scale for all axes: a non-uniform mesh scale would skew the (unscaled) normals
+  const scale = Math.max(size.x, size.y, size.z) / 2 || 1
+
+  const out = new Int16Array(attr.array.length)
+  for (let i = 0; i < attr.count; i++) {
+    out[i * 3] = Math.round((attr.getX(i) - center.x) / scale * 32767)
+    out[i * 3 + 1] = Math.round((attr.getY(i) - center.y) / scale * 32767)
+    out[i * 3 + 2] = Math.round((attr.getZ(i) - center.z) / scale * 32767)
+  }
+  geometry.setAttribute('position', new THREE.BufferAttribute(out, 3, true))
+  geometry.computeBoundingBox()
+  geometry.computeBoundingSphere()
+
+  const dequantize = new THREE.Matrix4().makeTranslation(center.x, center.y, center.z).scale(new THREE.Vector3(scale, scale, scale))
+  const partMaps = new Set<MergedPart[]>()
+  meshes.forEach((mesh) => {
+    mesh.updateMatrix()
+    mesh.matrix.multiply(dequantize)
+    mesh.matrix.decompose(mesh.position, mesh.quaternion, mesh.scale)
+    if (mesh.userData.mergedParts) partMaps.add(mesh.userData.mergedParts)
+  })
+
+  // part centers are in the mesh's space, which is now the quantized one
+  const quantize = dequantize.clone().invert()
+  const point = new THREE.Vector3()
+  partMaps.forEach((parts) => parts.forEach((part) => {
+    part.center = point.fromArray(part.center).applyMatrix4(quantize).toArray()
+  }))
+}
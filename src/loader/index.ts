@@ -1,5 +1,20 @@
 // Loader utilities - Model loaders, skybox loaders, and sky managers
 export * from './modelLoader'
+export * from './loadProgress'
+export * from './loadQueue'
+export * from './formatDetection'
+export * from './formatRegistry'
+export * from './modelCache'
+export * from './modelLod'
+export * from './geometryOptimizer'
+export * from './instancing'
+export * from './modelInspector'
+export * from './modelNormalize'
+export * from './materialVariants'
+export * from './modelExporter'
+export * from './zipBundle'
+export * from './persistentCache'
 export * from './skyboxLoader'
 export * from './blueSkyManager'
 export * from './config'
+export * from './retry'
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { instanceRepeatedMeshes } from './instancing'
+
+/** Four bolts with separately allocated but identical geometry, plus one unique mesh */
+function boltScene(): THREE.Group {
+    const root = new THREE.Group()
+    const material = new THREE.MeshStandardMaterial()
+    for (let i = 0; i < 4; i++) {
+        const bolt = new THREE.Mesh(new THREE.CylinderGeometry(0.1, 0.1, 1), material)
+        bolt.name = `bolt-${i}`
+        bolt.userData.tag = `B-${i}`
+        bolt.position.set(i, 0, 0)
+        bolt.rotation.z = i * 0.5
+        root.add(bolt)
+    }
+    const plate = new THREE.Mesh(new THREE.BoxGeometry(4, 0.1, 1), material)
+    plate.name = 'plate'
+    root.add(plate)
+    return root
+}
+
+describe('instancing', () => {
+    it('should replace identical meshes with one InstancedMesh', () => {
+        const root = boltScene()
+        const result = instanceRepeatedMeshes(root)
+
+        expect(result.replaced).toBe(4)
+        expect(result.instancedMeshes).toHaveLength(1)
+        const instanced = result.instancedMeshes[0]
+        expect(instanced.count).toBe(4)
+        expect(root.children.map((c) => c.name).sort()).toEqual(['bolt-0', 'plate'])
+        expect(instanced.userData.instanceParts.map((p: any) => p.name)).toEqual(['bolt-0', 'bolt-1', 'bolt-2', 'bolt-3'])
+        expect(instanced.userData.instanceParts[2].userData.tag).toBe('B-2')
+    })
+
+    it('should keep each copy at its original transform', () => {
+        const root = boltScene()
+        root.updateMatrixWorld(true)
+        const expected = root.children[3].matrixWorld.clone()
+
+        const [instanced] = instanceRepeatedMeshes(root).instancedMeshes
+        const matrix = new THREE.Matrix4()
+        instanced.getMatrixAt(3, matrix)
+        expect(matrix.elements.map((e, i) => e - expected.elements[i]).every((d) => Math.abs(d) < 1e-6)).toBe(true)
+    })
+
+    it('should leave groups below minInstances and differing materials alone', () => {
+        const root = boltScene()
+        ;(root.children[0] as THREE.Mesh).material = new THREE.MeshStandardMaterial()
+        const result = instanceRepeatedMeshes(root, { minInstances: 4 })
+
+        expect(result.replaced).toBe(0)
+        expect(root.children).toHaveLength(5)
+    })
+    it('should dispose duplicate geometries no remaining mesh uses', () => {
+        const root = boltScene()
+        const bolts = root.children.slice(0, 4) as THREE.Mesh[]
+        // bolt-3 shares its geometry with a mesh that is not instanced
+        const washer = new THREE.Mesh(bolts[3].geometry, new THREE.MeshBasicMaterial())
+        root.add(washer)
+        const disposed = new Set<THREE.BufferGeometry>()
+        bolts.forEach((bolt) => bolt.geometry.addEventListener('dispose', () => disposed.add(bolt.geometry)))
+
+        const [instanced] = instanceRepeatedMeshes(root).instancedMeshes
+
+        expect(instanced.geometry).toBe(bolts[0].geometry)
+        expect([...disposed]).toEqual([bolts[1].geometry, bolts[2].geometry])
+    })
+})
@@ -0,0 +1,165 @@
+/**
+ * @file instancing.ts
+ * @description
+ * Converts meshes that repeat the same geometry and material (bolts, valves...) into one `InstancedMesh`
+ * per geometry/material pair, keeping each copy's name, uuid, userData and transform.
+ *
+ * @best-practice
+ * - Use through `loadModelByUrl(url, { instancing: true })`.
+ * - Identical geometries are detected by content, so exporters that duplicate buffers still benefit.
+ * - Picking resolves `instanceId` to the original part (see `core/mergedParts.ts`); click/hover tools do it.
+ * - Tools that look parts up by name in the scene graph (labels, exploder) no longer see instanced copies.
+ */
+
+import * as THREE from 'three'
+import type { InstancePart } from '../core/mergedParts'
+
+export interface InstancingOptions {
+  /** Minimum number of copies before a group becomes an InstancedMesh (default 2) */
+  minInstances?: number
+}
+
+export interface InstancingResult {
+  /** Created instanced meshes */
+  instancedMeshes: THREE.InstancedMesh[]
+  /** Number of meshes replaced by instances */
+  replaced: number
+}
+
+/**
+ * Replace repeated meshes of `root` with InstancedMeshes added to `root`
+ * - Skinned, morphed, multi-material, hidden meshes and meshes with children are left as they are
+ * - Per-instance records are stored in `userData.instanceParts` (index = instanceId)
+ * - Duplicate geometries replaced by the shared one are disposed
+ */
+export function instanceRepeatedMeshes(root: THREE.Object3D, options: InstancingOptions = {}): InstancingResult {
+  const minInstances = Math.max(2, options.minInstances ?? 2)
+  const canonical = new GeometryDeduplicator()
+  const groups = new Map<string, { geometry: THREE.BufferGeometry, material: THREE.Material, meshes: THREE.Mesh[] }>()
+
+  root.updateMatrixWorld(true)
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh
+    if (!mesh.isMesh || !mesh.geometry || !mesh.material || Array.isArray(mesh.material)) return
+    if ((mesh as any).isSkinnedMesh || (mesh as any).isInstancedMesh || (mesh.parent as any)?.isLOD) return
+    if (!mesh.visible || mesh.children.length > 0 || Object.keys(mesh.geometry.morphAttributes).length > 0) return
+
+    const geometry = canonical.get(mesh.geometry)
+    const key = `${geometry.uuid}|${mesh.material.uuid}`
+    const group = groups.get(key) ?? { geometry, material: mesh.material, meshes: [] }
+    group.meshes.push(mesh)
+    groups.set(key, group)
+  })
+
+  const rootInverse = root.matrixWorld.clone().invert()
+  const matrix = new THREE.Matrix4()
+  const result: InstancingResult = { instancedMeshes: [], replaced: 0 }
+  const dropped = new Set<THREE.BufferGeometry>()
+
+  groups.forEach(({ geometry, material, meshes }) => {
+    if (meshes.length < minInstances) return
+
+    const instanced = new THREE.InstancedMesh(geometry, material, meshes.length)
+    instanced.name = meshes[0].name
+    instanced.castShadow = meshes.some((m) => m.castShadow)
+    instanced.receiveShadow = meshes.some((m) => m.receiveShadow)
+
+    if (!geometry.boundingBox) geometry.computeBoundingBox()
+    const localCenter = geometry.boundingBox!.getCenter(new THREE.Vector3())
+
+    const parts: InstancePart[] = meshes.map((mesh, instanceId) => {
+      matrix.multiplyMatrices(rootInverse, mesh.matrixWorld)
+      instanced.setMatrixAt(instanceId, matrix)
+      mesh.parent?.remove(mesh)
+      if (mesh.geometry !== geometry) dropped.add(mesh.geometry)
+      return {
+        name: mesh.name,
+        uuid: mesh.uuid,
+        userData: { ...mesh.userData },
+        instanceId,
+        center: localCenter.clone().applyMatrix4(matrix).toArray() as [number, number, number],
+      }
+    })
+    instanced.instanceMatrix.needsUpdate = true
+    instanced.userData.instanceParts = parts
+
+    root.add(instanced)
+    result.instancedMeshes.push(instanced)
+    result.replaced += meshes.length
+  })
+
+  // duplicates folded into a canonical geometry: free them unless a remaining mesh still draws them
+  root.traverse((child) => { dropped.delete((child as THREE.Mesh).geometry) })
+  dropped.forEach((geometry) => geometry.dispose())
+
+  return result
+}
+
+/**
+ * Maps geometries to a canonical instance: same object, or same attributes and index by content
+ */
+class GeometryDeduplicator {
+  private byHash = new Map<string, THREE.BufferGeometry[]>()
+  private resolved = new Map<THREE.BufferGeometry, THREE.BufferGeometry>()
+
+  get(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+    const known = this.resolved.get(geometry)
+    if (known) return known
+
+    const hash = hashGeometry(geometry)
+    const candidates = this.byHash.get(hash) ?? []
+    const match = candidates.find((c) => geometriesEqual(c, geometry)) ?? geometry
+    if (match === geometry) {
+      candidates.push(geometry)
+      this.byHash.set(hash, candidates)
+    }
+    this.resolved.set(geometry, match)
+    return match
+  }
+}
+
+function geometryArrays(geometry: THREE.BufferGeometry): [string, ArrayLike<number>][] {
+  const arrays: [string, ArrayLike<number>][] = Object.keys(geometry.attributes).sort().map((name) => {
+    const attr: any = geometry.attributes[name]
+    return [`${name}:${attr.itemSize}:${attr.normalized}`, attr.isInterleavedBufferAttribute ? toArray(attr) : attr.array]
+  })
+  if (geometry.index) arrays.push(['index', geometry.index.array])
+  return arrays
+}
+
+function toArray(attr: THREE.InterleavedBufferAttribute): number[] {
+  const { array, stride } = attr.data
+  const out: number[] = []
+  for (let i = 0; i < attr.count; i++) {
+    for (let c = 0; c < attr.itemSize; c++) out.push(array[i * stride + attr.offset + c])
+  }
+  return out
+}
+
+/** FNV-1a over attribute layout and values */
+function hashGeometry(geometry: THREE.BufferGeometry): string {
+  let h = 0x811c9dc5
+  const mix = (n: number) => {
+    h ^= n
+    h = Math.imul(h, 0x01000193)
+  }
+  geometryArrays(geometry).forEach(([layout, array]) => {
+    for (let i = 0; i < layout.length; i++) mix(layout.charCodeAt(i))
+    mix(array.length)
+    // values are rounded for hashing only; candidates are compared exactly
+    for (let i = 0; i < array.length; i++) mix(Math.round(array[i] * 1e4) | 0)
+  })
+  return (h >>> 0).toString(16)
+}
+
+function geometriesEqual(a: THREE.BufferGeometry, b: THREE.BufferGeometry): boolean {
+  const arraysA = geometryArrays(a)
+  const arraysB = geometryArrays(b)
+  if (arraysA.length !== arraysB.length) return false
+  return arraysA.every(([layout, array], i) => {
+    const [layoutB, arrayB] = arraysB[i]
+    if (layout !== layoutB || array.length !== arrayB.length) return false
+    for (let j = 0; j < array.length; j++) if (array[j] !== arrayB[j]) return false
+    return true
+  })
+}
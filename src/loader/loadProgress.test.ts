@@ -0,0 +1,28 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createLoadProgressTracker } from './loadProgress'
+
+describe('createLoadProgressTracker', () => {
+    it('should weight loads by byte size', () => {
+        const onProgress = vi.fn()
+        const tracker = createLoadProgressTracker(onProgress)
+
+        const small = tracker.track('small.glb')
+        const large = tracker.track('large.glb')
+
+        small.onProgress!({ url: 'small.glb', phase: 'done', loaded: 100, total: 100, progress: 1 })
+        large.onProgress!({ url: 'large.glb', phase: 'downloading', loaded: 0, total: 300, progress: 0 })
+
+        expect(tracker.getProgress()).toBeCloseTo(0.25)
+        expect(onProgress).toHaveBeenLastCalledWith(0.25, expect.any(Array))
+    })
+
+    it('should count completed loads as finished', () => {
+        const tracker = createLoadProgressTracker()
+        const a = tracker.track('a.glb')
+        tracker.track('b.glb')
+
+        tracker.complete(a)
+
+        expect(tracker.getProgress()).toBeCloseTo(0.5)
+    })
+})
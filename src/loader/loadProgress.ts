@@ -0,0 +1,114 @@
+/**
+ * @file loadProgress.ts
+ * @description
+ * Combines the progress of several concurrent `loadModelByUrl` calls into one weighted value,
+ * for a single loading overlay.
+ *
+ * @best-practice
+ * - Use `loadModelsByUrl` when all models are requested in one place.
+ * - Use `createLoadProgressTracker` + `track()` when loads are started from different components.
+ * - Loads are weighted by their byte size; loads with unknown size get the average weight.
+ */
+
+import * as THREE from 'three'
+import { loadModelByUrl, LoadOptions, ModelLoadProgress } from './modelLoader'
+
+/** Combined progress callback: overall value in [0, 1] plus the latest state of every tracked load */
+export type BatchProgressCallback = (progress: number, loads: ModelLoadProgress[]) => void
+
+export interface LoadProgressTracker {
+  /** Register a load; pass the returned options to `loadModelByUrl` */
+  track: (url: string, options?: LoadOptions) => LoadOptions
+  /** Mark a load (the options returned by `track`) as finished, e.g. after it failed, so it no longer holds the overall value back */
+  complete: (tracked: LoadOptions) => void
+  /** Current overall progress in [0, 1] */
+  getProgress: () => number
+  /** Forget all tracked loads */
+  reset: () => void
+}
+
+/**
+ * Create a tracker that merges per-model progress into one weighted value
+ * @param onProgress Called whenever any tracked load reports progress
+ */
+export function createLoadProgressTracker(onProgress?: BatchProgressCallback): LoadProgressTracker {
+  const loads: ModelLoadProgress[] = []
+  const entries = new WeakMap<LoadOptions, ModelLoadProgress>()
+
+  function getProgress(): number {
+    if (loads.length === 0) return 0
+
+    // Weight by bytes; loads whose size is still unknown get the average known size
+    const known = loads.filter((l) => l.total > 0)
+    const fallbackWeight = known.length > 0
+      ? known.reduce((sum, l) => sum + l.total, 0) / known.length
+      : 1
+
+    let weighted = 0
+    let weights = 0
+    for (const l of loads) {
+      const w = l.total > 0 ? l.total : fallbackWeight
+      weighted += w * l.progress
+      weights += w
+    }
+    return weights > 0 ? weighted / weights : 0
+  }
+
+  function emit() {
+    onProgress?.(getProgress(), loads.slice())
+  }
+
+  function track(url: string, options: LoadOptions = {}): LoadOptions {
+    const entry: ModelLoadProgress = { url, phase: 'downloading', loaded: 0, total: 0, progress: 0 }
+    loads.push(entry)
+    emit()
+
+    const tracked: LoadOptions = {
+      ...options,
+      onProgress: (ev) => {
+        Object.assign(entry, ev)
+        options.onProgress?.(ev)
+        emit()
+      }
+    }
+    entries.set(tracked, entry)
+    return tracked
+  }
+
+  function complete(tracked: LoadOptions) {
+    const entry = entries.get(tracked)
+    if (!entry || entry.phase === 'done') return
+    entry.phase = 'done'
+    entry.progress = 1
+    emit()
+  }
+
+  function reset() {
+    loads.length = 0
+  }
+
+  return { track, complete, getProgress, reset }
+}
+
+/**
+ * Load several models concurrently and report one combined progress value
+ * @param urls Model URLs
+ * @param options Options shared by every load
+ * @param onProgress Combined progress callback
+ */
+export async function loadModelsByUrl(
+  urls: string[],
+  options: LoadOptions = {},
+  onProgress?: BatchProgressCallback
+): Promise<THREE.Object3D[]> {
+  const tracker = createLoadProgressTracker(onProgress)
+
+  return Promise.all(urls.map(async (url) => {
+    const tracked = tracker.track(url, options)
+    try {
+      return await loadModelByUrl(url, tracked)
+    } finally {
+      tracker.complete(tracked)
+    }
+  }))
+}
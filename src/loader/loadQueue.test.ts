@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as THREE from 'three'
+import { ModelLoadQueue } from './loadQueue'
+import { loadModelByUrl, ModelLoadAbortError } from './modelLoader'
+
+vi.mock('./modelLoader', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('./modelLoader')>()
+    return { ...actual, loadModelByUrl: vi.fn() }
+})
+
+/** Loads that stay pending until finish(url) is called */
+const inFlight = new Map<string, () => void>()
+function finish(url: string) {
+    inFlight.get(url)!()
+    return new Promise((r) => setTimeout(r, 0))
+}
+
+beforeEach(() => {
+    inFlight.clear()
+    vi.mocked(loadModelByUrl).mockReset().mockImplementation((url, options) => new Promise((resolve, reject) => {
+        inFlight.set(url, () => resolve(new THREE.Group()))
+        options?.signal?.addEventListener('abort', () => reject(new ModelLoadAbortError(url)))
+    }))
+})
+
+describe('ModelLoadQueue', () => {
+    it('should respect max concurrency and run higher priority first', async () => {
+        const queue = new ModelLoadQueue({ maxConcurrency: 1 })
+        queue.enqueue('a.glb')
+        queue.enqueue('low.glb', {}, 0)
+        const high = queue.enqueue('high.glb', {}, 0)
+        high.setPriority(10)
+
+        expect(queue.getActiveCount()).toBe(1)
+        expect(queue.getPendingCount()).toBe(2)
+
+        await finish('a.glb')
+        expect(vi.mocked(loadModelByUrl).mock.calls.map(([url]) => url)).toEqual(['a.glb', 'high.glb'])
+    })
+
+    it('should cancel pending and active loads', async () => {
+        const queue = new ModelLoadQueue({ maxConcurrency: 1 })
+        const active = queue.enqueue('active.glb')
+        const pending = queue.enqueue('pending.glb')
+
+        pending.cancel()
+        await expect(pending.promise).rejects.toBeInstanceOf(ModelLoadAbortError)
+        expect(pending.status).toBe('cancelled')
+
+        active.cancel()
+        await expect(active.promise).rejects.toBeInstanceOf(ModelLoadAbortError)
+        expect(loadModelByUrl).toHaveBeenCalledTimes(1)
+        expect(queue.getActiveCount()).toBe(0)
+    })
+
+    it('should release the caller signal once a load settles', async () => {
+        const queue = new ModelLoadQueue({ maxConcurrency: 1 })
+        const signal = new AbortController().signal
+        const removed = vi.spyOn(signal, 'removeEventListener')
+        const loaded = queue.enqueue('loaded.glb', { signal })
+        const pending = queue.enqueue('pending.glb', { signal })
+
+        pending.cancel()
+        await expect(pending.promise).rejects.toBeInstanceOf(ModelLoadAbortError)
+        await finish('loaded.glb')
+        await loaded.promise
+
+        expect(removed.mock.calls.filter(([type]) => type === 'abort')).toHaveLength(2)
+    })
+})
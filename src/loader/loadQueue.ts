@@ -0,0 +1,188 @@
+/**
+ * @file loadQueue.ts
+ * @description
+ * Concurrency-limited, prioritized queue on top of `loadModelByUrl`.
+ *
+ * @best-practice
+ * - Create one queue per scene and route every model load through it.
+ * - Raise the priority of the model the camera is looking at with `setPriority`.
+ * - Cancel loads the user navigated away from; active loads are aborted, queued ones never start.
+ * - Loads share `loadModelByUrl`'s options and cache.
+ */
+
+import * as THREE from 'three'
+import { loadModelByUrl, LoadOptions, ModelLoadAbortError } from './modelLoader'
+
+export interface LoadQueueOptions {
+  /** Maximum number of loads running at the same time (default 4) */
+  maxConcurrency?: number
+}
+
+export type QueuedLoadStatus = 'pending' | 'loading' | 'loaded' | 'failed' | 'cancelled'
+
+/** Handle returned by `ModelLoadQueue.enqueue` */
+export interface QueuedLoad {
+  readonly id: number
+  readonly url: string
+  /** Resolves with the model, rejects with `ModelLoadAbortError` when cancelled */
+  readonly promise: Promise<THREE.Object3D>
+  readonly priority: number
+  readonly status: QueuedLoadStatus
+  /** Change the priority (only affects loads that have not started yet) */
+  setPriority: (priority: number) => void
+  /** Cancel the load: removes it from the queue or aborts it if already running */
+  cancel: () => void
+}
+
+type QueueEntry = {
+  handle: QueuedLoad
+  url: string
+  options: LoadOptions
+  priority: number
+  seq: number
+  status: QueuedLoadStatus
+  controller: AbortController
+  resolve: (obj: THREE.Object3D) => void
+  reject: (err: any) => void
+  /** Removes the listener on the caller's signal once the entry settles */
+  detach: () => void
+}
+
+/**
+ * ModelLoadQueue
+ * Runs at most `maxConcurrency` loads at once; higher priority first, FIFO among equal priorities.
+ */
+export class ModelLoadQueue {
+  private maxConcurrency: number
+  private pending: QueueEntry[] = []
+  private active = new Set<QueueEntry>()
+  private nextId = 1
+
+  constructor(options: LoadQueueOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4)
+  }
+
+  /**
+   * Queue a model load
+   * @param url Model URL
+   * @param options Same options as `loadModelByUrl`; `signal` cancels the queued load too
+   * @param priority Higher runs first (default 0)
+   */
+  enqueue(url: string, options: LoadOptions = {}, priority = 0): QueuedLoad {
+    const id = this.nextId++
+    const controller = new AbortController()
+    let entry!: QueueEntry
+
+    const promise = new Promise<THREE.Object3D>((resolve, reject) => {
+      const queue = this
+      entry = {
+        url,
+        options,
+        priority,
+        seq: id,
+        status: 'pending',
+        controller,
+        resolve,
+        reject,
+        detach: () => { },
+        handle: {
+          id,
+          url,
+          get promise() { return promise },
+          get priority() { return entry.priority },
+          get status() { return entry.status },
+          setPriority: (p: number) => { entry.priority = p },
+          cancel: () => queue.cancel(entry),
+        }
+      }
+    })
+
+    const { signal } = options
+    if (signal) {
+      if (signal.aborted) {
+        controller.abort()
+      } else {
+        // a long-lived signal shared by many loads must not keep settled entries alive
+        const onAbort = () => this.cancel(entry)
+        signal.addEventListener('abort', onAbort, { once: true })
+        entry.detach = () => signal.removeEventListener('abort', onAbort)
+      }
+    }
+
+    this.pending.push(entry)
+    if (controller.signal.aborted) this.cancel(entry)
+    else this.pump()
+
+    return entry.handle
+  }
+
+  /** Change the maximum number of concurrent loads */
+  setMaxConcurrency(maxConcurrency: number) {
+    this.maxConcurrency = Math.max(1, maxConcurrency)
+    this.pump()
+  }
+
+  /** Cancel every queued and running load */
+  cancelAll() {
+    [...this.pending, ...this.active].forEach((entry) => this.cancel(entry))
+  }
+
+  /** Number of loads waiting to start */
+  getPendingCount(): number {
+    return this.pending.length
+  }
+
+  /** Number of loads currently running */
+  getActiveCount(): number {
+    return this.active.size
+  }
+
+  private cancel(entry: QueueEntry) {
+    if (entry.status === 'pending') {
+      this.pending = this.pending.filter((e) => e !== entry)
+      entry.status = 'cancelled'
+      entry.detach()
+      entry.reject(new ModelLoadAbortError(entry.url))
+    } else if (entry.status === 'loading') {
+      // loadModelByUrl rejects with ModelLoadAbortError and frees its slot
+      entry.controller.abort()
+    }
+  }
+
+  /** Pick the highest-priority entry (oldest first among ties) */
+  private takeNext(): QueueEntry | undefined {
+    if (this.pending.length === 0) return undefined
+    let best = 0
+    for (let i = 1; i < this.pending.length; i++) {
+      const e = this.pending[i]
+      const b = this.pending[best]
+      if (e.priority > b.priority || (e.priority === b.priority && e.seq < b.seq)) best = i
+    }
+    return this.pending.splice(best, 1)[0]
+  }
+
+  private pump() {
+    while (this.active.size < this.maxConcurrency) {
+      const entry = this.takeNext()
+      if (!entry) return
+      this.run(entry)
+    }
+  }
+
+  private async run(entry: QueueEntry) {
+    entry.status = 'loading'
+    this.active.add(entry)
+    try {
+      const object = await loadModelByUrl(entry.url, { ...entry.options, signal: entry.controller.signal })
+      entry.status = 'loaded'
+      entry.resolve(object)
+    } catch (e) {
+      entry.status = e instanceof ModelLoadAbortError ? 'cancelled' : 'failed'
+      entry.reject(e)
+    } finally {
+      entry.detach()
+      this.active.delete(entry)
+      this.pump()
+    }
+  }
+}
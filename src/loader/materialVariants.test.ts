@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { applyVariant, copyMaterialVariants, getMaterialVariants, prepareMaterialVariants } from './materialVariants'
+import { applyMaterialOverrides, revertMaterialOverrides } from '../core/materialOverrides'
+
+/** GLTFLoader-like result: a shoe whose sole has 'midnight' / 'beach' variants and a lace without mappings */
+function variantGLTF() {
+    const fileMaterials = [
+        new THREE.MeshStandardMaterial({ name: 'sole-white' }),
+        new THREE.MeshStandardMaterial({ name: 'sole-black' }),
+        new THREE.MeshStandardMaterial({ name: 'sole-sand' }),
+    ]
+    const scene = new THREE.Group()
+    const sole = new THREE.Mesh(new THREE.BoxGeometry(), fileMaterials[0])
+    sole.name = 'sole'
+    sole.userData.gltfExtensions = {
+        KHR_materials_variants: { mappings: [{ material: 1, variants: [0] }, { material: 2, variants: [1] }] },
+    }
+    const lace = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial({ name: 'lace' }))
+    lace.name = 'lace'
+    scene.add(sole, lace)
+
+    return {
+        scene,
+        userData: { gltfExtensions: { KHR_materials_variants: { variants: [{ name: 'midnight' }, { name: 'beach' }] } } },
+        parser: {
+            getDependency: async (_type: string, index: number) => fileMaterials[index],
+            assignFinalMaterial: () => { },
+        },
+    }
+}
+
+const materialName = (object: THREE.Object3D, name: string) => ((object.getObjectByName(name) as THREE.Mesh).material as THREE.Material).name
+
+describe('materialVariants', () => {
+    it('should list the variants and switch materials by name', async () => {
+        const gltf = variantGLTF()
+        await prepareMaterialVariants(gltf)
+
+        expect(getMaterialVariants(gltf.scene)).toEqual(['midnight', 'beach'])
+        applyVariant(gltf.scene, 'beach')
+        expect(materialName(gltf.scene, 'sole')).toBe('sole-sand')
+        expect(materialName(gltf.scene, 'lace')).toBe('lace')
+        expect(gltf.scene.userData.activeMaterialVariant).toBe('beach')
+
+        applyVariant(gltf.scene, null)
+        expect(materialName(gltf.scene, 'sole')).toBe('sole-white')
+        expect(() => applyVariant(gltf.scene, 'forest')).toThrow('Material variant not found: forest')
+    })
+
+    it('should carry variants over to clones', async () => {
+        const gltf = variantGLTF()
+        await prepareMaterialVariants(gltf)
+        const copy = gltf.scene.clone()
+        copyMaterialVariants(gltf.scene, copy)
+
+        applyVariant(copy, 'midnight')
+        expect(materialName(copy, 'sole')).toBe('sole-black')
+        expect(materialName(gltf.scene, 'sole')).toBe('sole-white')
+    })
+
+    it('should switch the base material under an override', async () => {
+        const gltf = variantGLTF()
+        await prepareMaterialVariants(gltf)
+        applyMaterialOverrides(gltf.scene, { sole: new THREE.MeshStandardMaterial({ name: 'chrome' }) })
+
+        applyVariant(gltf.scene, 'midnight')
+        expect(materialName(gltf.scene, 'sole')).toBe('chrome')
+        revertMaterialOverrides(gltf.scene)
+        expect(materialName(gltf.scene, 'sole')).toBe('sole-black')
+    })
+})
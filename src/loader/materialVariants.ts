@@ -0,0 +1,109 @@
+/**
+ * @file materialVariants.ts
+ * @description
+ * `KHR_materials_variants` support: variant materials are prepared while the GLTF is parsed,
+ * the variant names are listed on the loaded object and `applyVariant` switches between them.
+ *
+ * @best-practice
+ * - Read the available variants with `getMaterialVariants(model)` (also on `userData.materialVariants`).
+ * - `applyVariant(model, null)` goes back to the materials the file assigns by default.
+ * - Variant materials live beside the scene graph (userData only holds JSON); models returned by
+ *   `loadModelByUrl` keep them, for manual clones call `copyMaterialVariants(source, clone)`.
+ * - Meshes merged (`mergeGeometries`) or instanced (`instancing`) during load lose their variants.
+ */
+
+import * as THREE from 'three'
+import { setBaseMaterial } from '../core/materialOverrides'
+
+type MeshMaterial = THREE.Material | THREE.Material[]
+
+interface MeshVariants {
+  /** Material assigned by the file */
+  base: MeshMaterial
+  /** Variant name -> material */
+  variants: Map<string, THREE.Material>
+}
+
+/** Minimal shape of a GLTFLoader result used here */
+interface GLTFVariantSource {
+  scene: THREE.Object3D
+  userData?: Record<string, any>
+  parser?: {
+    getDependency(type: string, index: number): Promise<any>
+    assignFinalMaterial(mesh: THREE.Mesh): void
+  }
+}
+
+const meshVariants = new WeakMap<THREE.Object3D, MeshVariants>()
+
+/**
+ * Load the materials of every variant of a parsed GLTF (called by the glTF format before post-processing)
+ * - Variant names are stored on `scene.userData.materialVariants`
+ */
+export async function prepareMaterialVariants(gltf: GLTFVariantSource): Promise<void> {
+  const extension = gltf.userData?.gltfExtensions?.KHR_materials_variants
+  const parser = gltf.parser
+  if (!extension?.variants?.length || !parser) return
+
+  const names: string[] = extension.variants.map((variant: any, i: number) => variant.name ?? `variant_${i}`)
+  gltf.scene.userData.materialVariants = names
+
+  const meshes: THREE.Mesh[] = []
+  gltf.scene.traverse((child) => {
+    if ((child as THREE.Mesh).isMesh && child.userData.gltfExtensions?.KHR_materials_variants) meshes.push(child as THREE.Mesh)
+  })
+
+  for (const mesh of meshes) {
+    const base = mesh.material
+    const variants = new Map<string, THREE.Material>()
+    for (const mapping of mesh.userData.gltfExtensions.KHR_materials_variants.mappings ?? []) {
+      // same path as the file's own materials: per-mesh defines (vertex colors, flat shading...)
+      mesh.material = await parser.getDependency('material', mapping.material)
+      parser.assignFinalMaterial(mesh)
+      ;(mapping.variants as number[]).forEach((index) => variants.set(names[index], mesh.material as THREE.Material))
+    }
+    mesh.material = base
+    meshVariants.set(mesh, { base, variants })
+  }
+}
+
+/** Variant names available in an object (model or scene) */
+export function getMaterialVariants(object: THREE.Object3D): string[] {
+  const names = new Set<string>()
+  object.traverse((child) => {
+    const list = child.userData?.materialVariants
+    if (Array.isArray(list)) list.forEach((name: string) => names.add(name))
+  })
+  return Array.from(names)
+}
+
+/**
+ * Switch the materials of an object to a variant; `null` restores the default materials
+ * - Meshes without a material for the variant show their default material
+ * - Overridden parts (`applyMaterialOverrides`) keep their override until reverted
+ */
+export function applyVariant(object: THREE.Object3D, name: string | null) {
+  if (name !== null && !getMaterialVariants(object).includes(name)) {
+    throw new Error(`Material variant not found: ${name} (available: ${getMaterialVariants(object).join(', ') || 'none'})`)
+  }
+  object.traverse((child) => {
+    const record = meshVariants.get(child)
+    if (record) setBaseMaterial(child as THREE.Mesh, (name !== null && record.variants.get(name)) || record.base)
+    if (Array.isArray(child.userData?.materialVariants)) child.userData.activeMaterialVariant = name
+  })
+}
+
+/**
+ * Carry variant materials over to a clone of `source` (Object3D.clone / SkeletonUtils.clone keep the hierarchy order)
+ */
+export function copyMaterialVariants(source: THREE.Object3D, target: THREE.Object3D) {
+  const sources: THREE.Object3D[] = []
+  const targets: THREE.Object3D[] = []
+  source.traverse((child) => { sources.push(child) })
+  target.traverse((child) => { targets.push(child) })
+  if (sources.length !== targets.length) return
+  sources.forEach((child, i) => {
+    const record = meshVariants.get(child)
+    if (record) meshVariants.set(targets[i], record)
+  })
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as THREE from 'three'
+import {
+    clearModelCache,
+    getCachedModel,
+    getModelCacheStats,
+    invalidateModel,
+    setCachedModel,
+    setModelCacheConfig,
+} from './modelCache'
+
+const makeModel = () => new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshBasicMaterial())
+
+describe('modelCache', () => {
+    beforeEach(() => {
+        setModelCacheConfig({ maxEntries: 50, maxBytes: Infinity, disposeOnEvict: true })
+        clearModelCache()
+    })
+
+    it('should evict the least recently used entry and dispose it', () => {
+        setModelCacheConfig({ maxEntries: 2 })
+        const a = makeModel()
+        const disposeSpy = vi.spyOn(a.geometry, 'dispose')
+
+        setCachedModel('a', 'a.glb', a)
+        setCachedModel('b', 'b.glb', makeModel())
+        getCachedModel('b')
+        setCachedModel('c', 'c.glb', makeModel())
+
+        expect(getCachedModel('a')).toBeUndefined()
+        expect(getCachedModel('b')).toBeDefined()
+        expect(disposeSpy).toHaveBeenCalled()
+        expect(getModelCacheStats().evictions).toBe(1)
+    })
+
+    it('should keep resources shared with another cached entry', () => {
+        setModelCacheConfig({ maxEntries: 1 })
+        const shared = new THREE.BoxGeometry(1, 1, 1)
+        const disposeSpy = vi.spyOn(shared, 'dispose')
+
+        setCachedModel('a', 'a.glb', new THREE.Mesh(shared, new THREE.MeshBasicMaterial()))
+        setCachedModel('b', 'b.glb', new THREE.Mesh(shared, new THREE.MeshBasicMaterial()))
+
+        expect(disposeSpy).not.toHaveBeenCalled()
+    })
+
+    it('should respect the byte budget', () => {
+        const bytes = (() => {
+            setCachedModel('probe', 'probe.glb', makeModel())
+            return getModelCacheStats().bytes
+        })()
+        clearModelCache()
+        setModelCacheConfig({ maxBytes: bytes * 1.5 })
+
+        setCachedModel('a', 'a.glb', makeModel())
+        setCachedModel('b', 'b.glb', makeModel())
+
+        expect(getModelCacheStats().entries).toBe(1)
+        expect(setCachedModel('huge', 'huge.glb', new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1, 50, 50, 50)))).toBe(false)
+    })
+
+    it('should invalidate every variant of a URL', () => {
+        setCachedModel('a#merged', 'a.glb', makeModel())
+        setCachedModel('a#plain', 'a.glb', makeModel())
+        setCachedModel('b', 'b.glb', makeModel())
+
+        expect(invalidateModel('a.glb')).toBe(2)
+        expect(getModelCacheStats().entries).toBe(1)
+    })
+})
@@ -0,0 +1,200 @@
+/**
+ * @file modelCache.ts
+ * @description
+ * LRU cache of parsed models used by `loadModelByUrl`, bounded by entry count and estimated bytes.
+ *
+ * @best-practice
+ * - Set a budget once at startup with `setModelCacheConfig` (e.g. `{ maxBytes: 512 * 1024 * 1024 }`).
+ * - Call `invalidateModel(url)` after a model file changed on the server.
+ * - Use `getModelCacheStats()` to tune the budget (hit rate, evictions, bytes).
+ * - Models returned by the loader are clones sharing geometry/materials with the cached entry.
+ *   Evicting an entry frees its GPU buffers; clones still in the scene keep rendering
+ *   (three.js re-uploads the data on their next render), so eviction never breaks a live model.
+ */
+
+import * as THREE from 'three'
+
+export interface ModelCacheConfig {
+  /** Maximum number of cached models (default 50) */
+  maxEntries?: number
+  /** Maximum estimated size of cached geometry + textures in bytes (default Infinity) */
+  maxBytes?: number
+  /** Dispose geometries/materials/textures of evicted entries (default true) */
+  disposeOnEvict?: boolean
+}
+
+export interface ModelCacheStats {
+  entries: number
+  /** Estimated bytes of all cached entries */
+  bytes: number
+  hits: number
+  misses: number
+  evictions: number
+  maxEntries: number
+  maxBytes: number
+}
+
+type CacheEntry = {
+  url: string
+  object: THREE.Object3D
+  bytes: number
+}
+
+let config: Required<ModelCacheConfig> = {
+  maxEntries: 50,
+  maxBytes: Infinity,
+  disposeOnEvict: true,
+}
+
+/** Map iteration order is insertion order: first entry = least recently used */
+const entries = new Map<string, CacheEntry>()
+let totalBytes = 0
+let hits = 0
+let misses = 0
+let evictions = 0
+
+/**
+ * Update the cache budget; entries over the new budget are evicted immediately
+ */
+export function setModelCacheConfig(next: ModelCacheConfig) {
+  config = { ...config, ...next }
+  evictOverBudget()
+}
+
+/** Current cache budget */
+export function getModelCacheConfig(): Required<ModelCacheConfig> {
+  return { ...config }
+}
+
+/** Cache statistics */
+export function getModelCacheStats(): ModelCacheStats {
+  return {
+    entries: entries.size,
+    bytes: totalBytes,
+    hits,
+    misses,
+    evictions,
+    maxEntries: config.maxEntries,
+    maxBytes: config.maxBytes,
+  }
+}
+
+/**
+ * Remove every cached variant of a URL (all option combinations)
+ * @returns Number of removed entries
+ */
+export function invalidateModel(url: string): number {
+  let removed = 0
+  for (const [key, entry] of Array.from(entries)) {
+    if (entry.url !== url) continue
+    removeEntry(key)
+    removed++
+  }
+  return removed
+}
+
+/** Remove all cached models and reset statistics */
+export function clearModelCache() {
+  Array.from(entries.keys()).forEach((key) => removeEntry(key))
+  hits = misses = evictions = 0
+}
+
+/**
+ * Look up a cached model and mark it as most recently used
+ * @internal Used by loadModelByUrl
+ */
+export function getCachedModel(key: string): THREE.Object3D | undefined {
+  const entry = entries.get(key)
+  if (!entry) {
+    misses++
+    return undefined
+  }
+  hits++
+  entries.delete(key)
+  entries.set(key, entry)
+  return entry.object
+}
+
+/**
+ * Store a model, evicting least recently used entries when over budget
+ * @internal Used by loadModelByUrl
+ * @returns false when the model alone exceeds the byte budget (it is not cached)
+ */
+export function setCachedModel(key: string, url: string, object: THREE.Object3D): boolean {
+  const bytes = estimateObjectBytes(object)
+  if (bytes > config.maxBytes) return false
+
+  if (entries.has(key)) removeEntry(key)
+  entries.set(key, { url, object, bytes })
+  totalBytes += bytes
+  evictOverBudget()
+  return true
+}
+
+function evictOverBudget() {
+  for (const key of Array.from(entries.keys())) {
+    if (entries.size <= config.maxEntries && totalBytes <= config.maxBytes) return
+    removeEntry(key)
+    evictions++
+  }
+}
+
+function removeEntry(key: string) {
+  const entry = entries.get(key)
+  if (!entry) return
+  entries.delete(key)
+  totalBytes -= entry.bytes
+  if (config.disposeOnEvict) disposeUnshared(entry.object)
+}
+
+/** Dispose resources of a removed entry that no other cached entry still uses */
+function disposeUnshared(object: THREE.Object3D) {
+  const inUse = new Set<any>()
+  entries.forEach((e) => collectResources(e.object).forEach((r) => inUse.add(r)))
+  collectResources(object).forEach((r) => {
+    if (inUse.has(r)) return
+    try { r.dispose() } catch { }
+  })
+}
+
+function collectResources(object: THREE.Object3D): Set<THREE.BufferGeometry | THREE.Material | THREE.Texture> {
+  const resources = new Set<THREE.BufferGeometry | THREE.Material | THREE.Texture>()
+  object.traverse((ch) => {
+    const mesh = ch as THREE.Mesh
+    if (mesh.geometry) resources.add(mesh.geometry)
+    if (!mesh.material) return
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+    materials.forEach((mat) => {
+      resources.add(mat)
+      Object.values(mat).forEach((v) => {
+        if (v instanceof THREE.Texture) resources.add(v)
+      })
+    })
+  })
+  return resources
+}
+
+/**
+ * Estimate GPU memory of an object: vertex/index buffers + textures (RGBA8, +1/3 for mipmaps)
+ * Shared geometries/textures are counted once.
+ */
+export function estimateObjectBytes(object: THREE.Object3D): number {
+  let bytes = 0
+  // Interleaved attributes share one array: count each array once
+  const arrays = new Set<ArrayBufferView>()
+  collectResources(object).forEach((r) => {
+    if ((r as THREE.BufferGeometry).isBufferGeometry) {
+      const geom = r as THREE.BufferGeometry
+      Object.values(geom.attributes).forEach((attr: any) => {
+        const array = attr.isInterleavedBufferAttribute ? attr.data.array : attr.array
+        if (array) arrays.add(array)
+      })
+      if (geom.index) arrays.add(geom.index.array)
+    } else if ((r as THREE.Texture).isTexture) {
+      const image: any = (r as THREE.Texture).image
+      if (image?.width && image?.height) bytes += Math.round(image.width * image.height * 4 * 4 / 3)
+    }
+  })
+  arrays.forEach((a) => { bytes += a.byteLength })
+  return bytes
+}
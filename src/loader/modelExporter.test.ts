@@ -0,0 +1,89 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { exportGLB, exportGLTF } from './modelExporter'
+
+/** Pump with a housing, an exploded impeller, a hidden cover and viewer-only helpers */
+function pump(): THREE.Group {
+    const root = new THREE.Group()
+    root.name = 'pump'
+    const housing = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial({ name: 'steel' }))
+    housing.name = 'housing'
+    housing.userData = { tag: 'P-101', __internal: 1, mergedParts: [{ name: 'a', start: 0, count: 3 }], geometryReport: { before: {}, after: {} } }
+    const impeller = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial({ name: 'brass' }))
+    impeller.name = 'impeller'
+    impeller.updateMatrixWorld(true)
+    impeller.userData.__originalMatrixWorld = impeller.matrixWorld.clone()
+    impeller.position.set(5, 0, 0)
+    const cover = new THREE.Mesh(new THREE.BoxGeometry(), housing.material)
+    cover.name = 'cover'
+    cover.visible = false
+    const liquid = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshPhongMaterial())
+    liquid.userData.liquidFill = true
+    root.add(housing, impeller, cover, liquid, new THREE.AxesHelper())
+    root.userData.normalization = { scale: 0.001 }
+    root.userData.units = 'meters'
+    root.userData.animations = [new THREE.AnimationClip('lift', 1, [new THREE.VectorKeyframeTrack('impeller.position', [0, 1], [0, 0, 0, 0, 1, 0])])]
+    return root
+}
+
+async function reload(buffer: ArrayBuffer) {
+    return new GLTFLoader().parseAsync(buffer, '')
+}
+
+describe('modelExporter', () => {
+    it('should export GLB without viewer-only or hidden objects', async () => {
+        const buffer = await exportGLB(pump())
+        expect(new TextDecoder().decode(buffer.slice(0, 4))).toBe('glTF')
+
+        const gltf = await reload(buffer)
+        const names: string[] = []
+        gltf.scene.traverse((child) => { if ((child as THREE.Mesh).isMesh) names.push(child.name) })
+        expect(names).toEqual(['housing', 'impeller'])
+        const extras = gltf.scene.getObjectByName('housing')!.userData
+        expect(extras.tag).toBe('P-101')
+        expect(extras.__internal).toBeUndefined()
+        expect(extras.mergedParts).toBeUndefined()
+        expect(extras.geometryReport).toBeUndefined()
+        // viewer bookkeeping is left out, model data stays
+        const rootExtras = gltf.scene.getObjectByName('pump')!.userData
+        expect(rootExtras.animations).toBeUndefined()
+        expect(rootExtras.normalization).toBeUndefined()
+        expect(rootExtras.units).toBe('meters')
+        expect(gltf.animations.map((clip) => clip.name)).toEqual(['lift'])
+    })
+
+    it('should run concurrent exports', async () => {
+        expect((globalThis as any).FileReader).toBeUndefined()
+        const first = exportGLB(pump())
+        // one more export starting after the first has finished
+        const late = first.then(() => exportGLB(pump()))
+        const buffers = await Promise.all([first, exportGLB(pump()), exportGLB(pump(), { textures: 'drop' }), late])
+        buffers.forEach((buffer) => expect(new TextDecoder().decode(buffer.slice(0, 4))).toBe('glTF'))
+        // the Node FileReader shim outlives every export sharing it, then leaves the globals as they were
+        expect((globalThis as any).FileReader).toBeUndefined()
+    })
+
+    it('should bake or undo exploded transforms', async () => {
+        const exploded = await reload(await exportGLB(pump()))
+        expect(exploded.scene.getObjectByName('impeller')!.position.x).toBeCloseTo(5)
+
+        const restored = await reload(await exportGLB(pump(), { bakeExploded: false }))
+        expect(restored.scene.getObjectByName('impeller')!.position.x).toBeCloseTo(0)
+    })
+
+    it('should drop textures without touching the live materials', async () => {
+        const model = pump()
+        const material = (model.getObjectByName('housing') as THREE.Mesh).material as THREE.MeshStandardMaterial
+        material.map = new THREE.DataTexture(new Uint8Array(4), 1, 1)
+
+        const json = await exportGLTF(model, { textures: 'drop', includeHidden: true, keepUserData: false })
+
+        expect(json.textures).toBeUndefined()
+        expect(json.nodes.map((node: any) => node.name)).toContain('cover')
+        expect(json.nodes.every((node: any) => node.extras === undefined)).toBe(true)
+        expect(material.map).not.toBeNull()
+        expect(model.children).toHaveLength(5)
+    })
+})
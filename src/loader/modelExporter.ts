@@ -0,0 +1,207 @@
+/**
+ * @file modelExporter.ts
+ * @description
+ * Serializes a model or scene back to GLB / glTF with GLTFExporter, as the user currently sees it:
+ * exploded positions, overridden materials and hidden parts included, viewer-only objects left out.
+ *
+ * @best-practice
+ * - Use `downloadModel(object, 'result.glb')` in the browser, `exportGLB` / `exportGLTF` for the data itself.
+ * - The live scene is never modified: the export works on a clone.
+ * - Viewer-only objects are stripped: three.js helpers, CSS2D/CSS3D labels, liquid fill meshes, merged part
+ *   proxies and anything flagged with `userData.exportIgnore = true`.
+ * - `userData` becomes glTF `extras`; internal keys (`__*`), viewer bookkeeping (part maps, reports) and data stored
+ *   elsewhere in glTF are removed.
+ * - Embedding textures needs a canvas (DOM or OffscreenCanvas): in Node, export with `textures: 'drop'`.
+ */
+
+import * as THREE from 'three'
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js'
+import { getAnimationClips } from '../effect/animationController'
+import { revertNormalization } from './modelNormalize'
+
+export interface ExportOptions {
+  /** Export meshes at their current exploded positions; false restores the pre-explode transforms (default true) */
+  bakeExploded?: boolean
+  /** Strip helpers, labels, liquid meshes and part proxies (default true) */
+  stripHelpers?: boolean
+  /** Keep userData as glTF extras (default true) */
+  keepUserData?: boolean
+  /** Embed textures in the file or drop them (default 'embed') */
+  textures?: 'embed' | 'drop'
+  /** Include hidden objects (default false: hidden parts stay out of the file) */
+  includeHidden?: boolean
+  /** Export the clips of `userData.animations` (default true) */
+  animations?: boolean
+  /** Undo `normalize` load options so the file keeps its source units and up axis (default false) */
+  undoNormalization?: boolean
+}
+
+/** userData keys never written as extras: viewer bookkeeping, or data that has its own place in glTF */
+const RESERVED_USER_DATA = [
+  'animations', 'gltfExtensions', 'materialVariants', 'activeMaterialVariant',
+  'mergedParts', 'instanceParts', 'geometryReport', 'normalization', 'pointCloud',
+]
+
+/**
+ * Export to binary glTF (.glb)
+ */
+export async function exportGLB(object: THREE.Object3D, options: ExportOptions = {}): Promise<ArrayBuffer> {
+  return (await runExport(object, options, true)) as ArrayBuffer
+}
+
+/**
+ * Export to glTF JSON (buffers and embedded images as data URIs)
+ */
+export async function exportGLTF(object: THREE.Object3D, options: ExportOptions = {}): Promise<Record<string, any>> {
+  return (await runExport(object, options, false)) as Record<string, any>
+}
+
+/**
+ * Export and hand the file to the browser as a download; `.gltf` file names produce JSON, anything else GLB
+ */
+export async function downloadModel(object: THREE.Object3D, fileName = 'model.glb', options: ExportOptions = {}) {
+  const json = fileName.toLowerCase().endsWith('.gltf')
+  const blob = json
+    ? new Blob([JSON.stringify(await exportGLTF(object, options))], { type: 'model/gltf+json' })
+    : new Blob([await exportGLB(object, options)], { type: 'model/gltf-binary' })
+
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/* ---------------------
+   Helpers
+   --------------------- */
+
+async function runExport(object: THREE.Object3D, options: ExportOptions, binary: boolean): Promise<ArrayBuffer | Record<string, any>> {
+  const { GLTFExporter } = await import('three/examples/jsm/exporters/GLTFExporter.js')
+  const clips = options.animations === false ? [] : getAnimationClips(object)
+  const copy = prepareCopy(object, options)
+
+  return withFileReader(() => new GLTFExporter().parseAsync(copy, {
+    binary,
+    onlyVisible: !options.includeHidden,
+    animations: clips,
+  }))
+}
+
+/** Clone of `object` shaped for export; the source is left untouched */
+function prepareCopy(object: THREE.Object3D, options: ExportOptions): THREE.Object3D {
+  object.updateMatrixWorld(true)
+  // SkeletonUtils.clone rebinds skinned meshes to the cloned bones (plain clones keep the source skeleton)
+  const copy = cloneSkinned(object)
+  const sources: THREE.Object3D[] = []
+  const copies: THREE.Object3D[] = []
+  object.traverse((child) => { sources.push(child) })
+  copy.traverse((child) => { copies.push(child) })
+
+  if (options.bakeExploded === false) {
+    sources.forEach((source, i) => restoreExplodedTransform(source, copies[i]))
+  }
+
+  if (options.undoNormalization) copies.forEach((child) => revertNormalization(child))
+
+  if (options.stripHelpers ?? true) {
+    copies.filter(isViewerOnly).forEach((child) => child.removeFromParent())
+  }
+
+  const stripped = new Map<THREE.Material, THREE.Material>()
+  copy.traverse((child) => {
+    child.userData = options.keepUserData === false ? {} : toExtras(child.userData)
+    const mesh = child as THREE.Mesh
+    if (options.textures === 'drop' && mesh.material) {
+      mesh.material = Array.isArray(mesh.material)
+        ? mesh.material.map((m) => withoutTextures(m, stripped))
+        : withoutTextures(mesh.material, stripped)
+    }
+  })
+  return copy
+}
+
+/** Put a copied mesh back where the exploder snapshotted it (`userData.__originalMatrixWorld`) */
+function restoreExplodedTransform(source: THREE.Object3D, copy: THREE.Object3D) {
+  const snapshot = source.userData.__originalMatrixWorld
+  if (!(snapshot instanceof THREE.Matrix4)) return
+  // snapshot is in scene space: express it relative to the source parent, then reuse it as the copy's local matrix
+  const local = snapshot.clone()
+  if (source.parent) local.premultiply(source.parent.matrixWorld.clone().invert())
+  copy.matrix.copy(local)
+  copy.matrix.decompose(copy.position, copy.quaternion, copy.scale)
+}
+
+function isViewerOnly(object: THREE.Object3D): boolean {
+  const anyObject = object as any
+  return object.type.endsWith('Helper')
+    || anyObject.isCSS2DObject === true
+    || anyObject.isCSS3DObject === true
+    || object.userData.liquidFill === true
+    || object.userData.mergedPartOf !== undefined
+    || object.userData.exportIgnore === true
+}
+
+function toExtras(userData: Record<string, any>): Record<string, any> {
+  const extras: Record<string, any> = {}
+  Object.entries(userData).forEach(([key, value]) => {
+    if (key.startsWith('__') || RESERVED_USER_DATA.includes(key)) return
+    extras[key] = value
+  })
+  return extras
+}
+
+function withoutTextures(material: THREE.Material, stripped: Map<THREE.Material, THREE.Material>): THREE.Material {
+  let copy = stripped.get(material)
+  if (!copy) {
+    copy = material.clone()
+    Object.entries(copy).forEach(([key, value]) => {
+      if (value instanceof THREE.Texture) (copy as any)[key] = null
+    })
+    stripped.set(material, copy)
+  }
+  return copy
+}
+
+/** Exports currently relying on the FileReader shim */
+let fileReaderUsers = 0
+
+/**
+ * GLTFExporter reads its blobs with FileReader, which Node lacks: provide a minimal one while exports run.
+ * Concurrent exports share the shim; the last one to finish removes it.
+ */
+async function withFileReader<T>(run: () => Promise<T>): Promise<T> {
+  const scope = globalThis as any
+  if (fileReaderUsers === 0 && typeof scope.FileReader !== 'undefined') return run()
+
+  if (fileReaderUsers++ === 0) scope.FileReader = BlobReader
+  try {
+    return await run()
+  } finally {
+    if (--fileReaderUsers === 0) delete scope.FileReader
+  }
+}
+
+class BlobReader {
+  result: ArrayBuffer | string | null = null
+  onloadend: (() => void) | null = null
+
+  readAsArrayBuffer(blob: Blob) {
+    blob.arrayBuffer().then((buffer) => this.finish(buffer))
+  }
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then((buffer) => {
+      const bytes = new Uint8Array(buffer)
+      let binary = ''
+      for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+      this.finish(`data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`)
+    })
+  }
+
+  private finish(result: ArrayBuffer | string) {
+    this.result = result
+    this.onloadend?.()
+  }
+}
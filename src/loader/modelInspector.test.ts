@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest'
+import * as THREE from 'three'
+import { inspectModel } from './modelInspector'
+
+function texture(width: number, height: number, name: string): THREE.DataTexture {
+    const tex = new THREE.DataTexture(null, width, height)
+    tex.name = name
+    return tex
+}
+
+describe('modelInspector', () => {
+    it('should count geometry, draw calls and inventory materials and textures', () => {
+        const root = new THREE.Group()
+        const material = new THREE.MeshStandardMaterial({ map: texture(512, 256, 'albedo') })
+        root.add(new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material))
+        const instanced = new THREE.InstancedMesh(new THREE.BoxGeometry(1, 1, 1), material, 3)
+        root.add(instanced)
+
+        const report = inspectModel(root)
+
+        expect(report.meshes).toBe(2)
+        expect(report.triangles).toBe(12 * 4)
+        expect(report.drawCalls).toBe(2)
+        expect(report.geometry.geometries).toBe(2)
+        expect(report.materials).toEqual([expect.objectContaining({ type: 'MeshStandardMaterial', meshes: 2, textureSlots: ['map'] })])
+        expect(report.textures).toEqual([expect.objectContaining({ name: 'albedo', width: 512, height: 256, slots: ['map'] })])
+        expect(report.gpuBytes).toBeGreaterThan(report.textures[0].bytes)
+        expect(report.warnings).toEqual([])
+    })
+
+    it('should report bounds, animations and a unit guess', () => {
+        const root = new THREE.Group()
+        const mesh = new THREE.Mesh(new THREE.BoxGeometry(2000, 500, 800), new THREE.MeshBasicMaterial())
+        mesh.position.x = 1000
+        root.add(mesh)
+        root.userData.animations = [new THREE.AnimationClip('spin', 2, [new THREE.NumberKeyframeTrack('.rotation[y]', [0, 2], [0, 6])])]
+
+        const report = inspectModel(root)
+
+        expect(report.bounds.size).toEqual([2000, 500, 800])
+        expect(report.bounds.center[0]).toBeCloseTo(1000)
+        expect(report.units).toEqual({ declared: null, guess: 'millimeters' })
+        expect(report.animations).toEqual([{ name: 'spin', duration: 2, tracks: 1 }])
+    })
+
+    it('should warn about problem geometry and huge textures', () => {
+        const geometry = new THREE.BufferGeometry()
+        // second triangle repeats a point: zero area
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 2, 0, 0], 3))
+        const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ normalMap: texture(8192, 8192, 'detail') }))
+        mesh.name = 'raw'
+
+        const codes = inspectModel(mesh).warnings.map((w) => `${w.code}:${w.target}`).sort()
+
+        expect(codes).toEqual(['degenerate-triangles:raw', 'huge-texture:detail', 'missing-normals:raw', 'non-indexed:raw'])
+    })
+
+    it('should flag NaN positions', () => {
+        // three.js logs the NaN bounding box it computes for the bounds
+        const error = vi.spyOn(console, 'error').mockImplementation(() => { })
+        const geometry = new THREE.BufferGeometry()
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0, NaN, 0, 0, 0, 1, 0], 3))
+        geometry.setAttribute('normal', new THREE.Float32BufferAttribute(new Array(9).fill(0), 3))
+        geometry.setIndex([0, 1, 2])
+
+        const [warning] = inspectModel(new THREE.Mesh(geometry)).warnings
+        expect(warning).toMatchObject({ code: 'nan-positions' })
+        error.mockRestore()
+    })
+})
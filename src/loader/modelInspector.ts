@@ -0,0 +1,303 @@
+/**
+ * @file modelInspector.ts
+ * @description
+ * Inspection report for a loaded model: counts, material / texture inventory with estimated GPU bytes,
+ * skinning / morph / animation info, bounds and units, plus warnings for common asset problems.
+ *
+ * @best-practice
+ * - Run `inspectModel(object)` on uploads before they reach production scenes, e.g. in a validation step.
+ * - `warnings` is empty for a clean asset; each warning names the offending mesh or texture.
+ * - Units come from `userData.units` when set (e.g. by normalization), else a guess from the model's size.
+ */
+
+import * as THREE from 'three'
+import { estimateObjectBytes } from './modelCache'
+import { GeometryStats, getObjectGeometryStats } from './geometryOptimizer'
+
+export interface InspectOptions {
+  /** Textures larger than this on either side are reported (default 4096) */
+  maxTextureSize?: number
+}
+
+export interface MaterialInfo {
+  name: string
+  uuid: string
+  type: string
+  /** Meshes using the material */
+  meshes: number
+  transparent: boolean
+  /** Texture slots in use (map, normalMap...) */
+  textureSlots: string[]
+}
+
+export interface TextureInfo {
+  name: string
+  uuid: string
+  width: number
+  height: number
+  /** Slots the texture is bound to, across materials */
+  slots: string[]
+  /** GPU-compressed (KTX2 / DDS...) */
+  compressed: boolean
+  /** Estimated GPU bytes, mipmaps included */
+  bytes: number
+}
+
+export interface AnimationInfo {
+  name: string
+  duration: number
+  tracks: number
+}
+
+export type ModelUnits = 'meters' | 'centimeters' | 'millimeters'
+
+export type ModelWarningCode =
+  | 'huge-texture'
+  | 'non-indexed'
+  | 'degenerate-triangles'
+  | 'missing-normals'
+  | 'nan-positions'
+
+export interface ModelWarning {
+  code: ModelWarningCode
+  message: string
+  /** Name of the offending mesh or texture */
+  target: string
+}
+
+export interface ModelInspection {
+  meshes: number
+  /** Rendered triangles / vertices: instances and shared geometries counted per use, finest LOD level only */
+  triangles: number
+  vertices: number
+  drawCalls: number
+  /** Unique geometries and their buffer sizes */
+  geometry: GeometryStats
+  materials: MaterialInfo[]
+  textures: TextureInfo[]
+  /** Estimated GPU memory of geometry and textures */
+  gpuBytes: number
+  skinning: { meshes: number, bones: number }
+  morphs: { meshes: number, targets: number }
+  animations: AnimationInfo[]
+  bounds: {
+    min: [number, number, number]
+    max: [number, number, number]
+    size: [number, number, number]
+    center: [number, number, number]
+  }
+  units: {
+    /** Units recorded on `userData.units`, if any */
+    declared: string | null
+    /** Rough guess from the largest dimension, assuming real-world objects */
+    guess: ModelUnits
+  }
+  warnings: ModelWarning[]
+}
+
+/**
+ * Build an inspection report for a loaded model (nothing is modified)
+ */
+export function inspectModel(object: THREE.Object3D, options: InspectOptions = {}): ModelInspection {
+  const maxTextureSize = options.maxTextureSize ?? 4096
+  const report: ModelInspection = {
+    meshes: 0,
+    triangles: 0,
+    vertices: 0,
+    drawCalls: 0,
+    geometry: getObjectGeometryStats(object),
+    materials: [],
+    textures: [],
+    gpuBytes: estimateObjectBytes(object),
+    skinning: { meshes: 0, bones: 0 },
+    morphs: { meshes: 0, targets: 0 },
+    animations: getAnimations(object).map((clip) => ({ name: clip.name, duration: clip.duration, tracks: clip.tracks.length })),
+    bounds: getBounds(object),
+    units: { declared: object.userData?.units ?? null, guess: 'meters' },
+    warnings: [],
+  }
+  report.units.guess = guessUnits(Math.max(...report.bounds.size))
+
+  const materials = new Map<THREE.Material, MaterialInfo>()
+  const textures = new Map<THREE.Texture, TextureInfo>()
+  const checked = new Set<THREE.BufferGeometry>()
+  const bones = new Set<THREE.Bone>()
+
+  object.updateMatrixWorld(true)
+  object.traverse((child) => {
+    const mesh = child as THREE.Mesh
+    if (!mesh.isMesh || !mesh.geometry?.attributes.position || isCoarseLODLevel(mesh)) return
+
+    const geometry = mesh.geometry
+    const uses = (mesh as THREE.InstancedMesh).isInstancedMesh ? (mesh as THREE.InstancedMesh).count : 1
+    report.meshes++
+    report.vertices += geometry.attributes.position.count * uses
+    report.triangles += Math.floor((geometry.index ? geometry.index.count : geometry.attributes.position.count) / 3) * uses
+
+    const meshMaterials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+    report.drawCalls += Array.isArray(mesh.material) && geometry.groups.length > 0 ? geometry.groups.length : 1
+    meshMaterials.forEach((material) => {
+      if (material) collectMaterial(material, materials, textures)
+    })
+
+    if ((mesh as THREE.SkinnedMesh).isSkinnedMesh) {
+      report.skinning.meshes++
+      ;(mesh as THREE.SkinnedMesh).skeleton?.bones.forEach((bone) => bones.add(bone))
+    }
+    const morphTargets = geometry.morphAttributes.position?.length ?? geometry.morphAttributes.normal?.length ?? 0
+    if (morphTargets > 0) {
+      report.morphs.meshes++
+      report.morphs.targets += morphTargets
+    }
+
+    if (checked.has(geometry)) return
+    checked.add(geometry)
+    checkGeometry(geometry, mesh.name || geometry.name || mesh.uuid, report.warnings)
+  })
+
+  report.skinning.bones = bones.size
+  report.materials = Array.from(materials.values())
+  report.textures = Array.from(textures.values())
+  report.textures.forEach((texture) => {
+    if (texture.width > maxTextureSize || texture.height > maxTextureSize) {
+      report.warnings.push({
+        code: 'huge-texture',
+        message: `Texture is ${texture.width}x${texture.height} (max ${maxTextureSize})`,
+        target: texture.name || texture.uuid,
+      })
+    }
+  })
+
+  return report
+}
+
+/* ---------------------
+   Helpers
+   --------------------- */
+
+function getAnimations(object: THREE.Object3D): THREE.AnimationClip[] {
+  const clips = object.userData?.animations
+  if (Array.isArray(clips) && clips.length > 0) return clips
+  return object.animations ?? []
+}
+
+function getBounds(object: THREE.Object3D): ModelInspection['bounds'] {
+  const box = new THREE.Box3().setFromObject(object)
+  if (box.isEmpty()) box.set(new THREE.Vector3(), new THREE.Vector3())
+  return {
+    min: box.min.toArray() as [number, number, number],
+    max: box.max.toArray() as [number, number, number],
+    size: box.getSize(new THREE.Vector3()).toArray() as [number, number, number],
+    center: box.getCenter(new THREE.Vector3()).toArray() as [number, number, number],
+  }
+}
+
+/** Assumes real-world objects rarely span more than a few hundred meters */
+function guessUnits(extent: number): ModelUnits {
+  if (extent > 1000) return 'millimeters'
+  if (extent > 300) return 'centimeters'
+  return 'meters'
+}
+
+/** Only the finest level of a THREE.LOD is counted */
+function isCoarseLODLevel(object: THREE.Object3D): boolean {
+  const parent = object.parent as THREE.LOD | null
+  return !!parent?.isLOD && parent.levels.findIndex((level) => level.object === object) > 0
+}
+
+function collectMaterial(material: THREE.Material, materials: Map<THREE.Material, MaterialInfo>, textures: Map<THREE.Texture, TextureInfo>) {
+  const known = materials.get(material)
+  if (known) {
+    known.meshes++
+    return
+  }
+
+  const info: MaterialInfo = {
+    name: material.name,
+    uuid: material.uuid,
+    type: material.type,
+    meshes: 1,
+    transparent: material.transparent,
+    textureSlots: [],
+  }
+  Object.entries(material).forEach(([slot, value]) => {
+    if (!(value instanceof THREE.Texture)) return
+    info.textureSlots.push(slot)
+    const texture = textures.get(value) ?? describeTexture(value)
+    if (!texture.slots.includes(slot)) texture.slots.push(slot)
+    textures.set(value, texture)
+  })
+  materials.set(material, info)
+}
+
+function describeTexture(texture: THREE.Texture): TextureInfo {
+  const image: any = texture.image
+  const width = image?.width ?? 0
+  const height = image?.height ?? 0
+  const compressed = (texture as THREE.CompressedTexture).isCompressedTexture === true
+  // compressed textures carry their mip levels: count their actual bytes
+  const mipmaps: any[] = compressed ? (texture.mipmaps ?? []) : []
+  const compressedBytes = mipmaps.reduce((sum, mip) => sum + (mip?.data?.byteLength ?? 0), 0)
+  return {
+    name: texture.name,
+    uuid: texture.uuid,
+    width,
+    height,
+    slots: [],
+    compressed,
+    bytes: compressedBytes || Math.round(width * height * 4 * 4 / 3),
+  }
+}
+
+function checkGeometry(geometry: THREE.BufferGeometry, target: string, warnings: ModelWarning[]) {
+  const position = geometry.attributes.position
+  if (!geometry.index) {
+    warnings.push({ code: 'non-indexed', message: `Geometry is not indexed (${position.count} vertices)`, target })
+  }
+  if (!geometry.attributes.normal) {
+    warnings.push({ code: 'missing-normals', message: 'Geometry has no normals', target })
+  }
+
+  let nan = 0
+  for (let i = 0; i < position.count; i++) {
+    if (!Number.isFinite(position.getX(i)) || !Number.isFinite(position.getY(i)) || !Number.isFinite(position.getZ(i))) nan++
+  }
+  if (nan > 0) {
+    warnings.push({ code: 'nan-positions', message: `${nan} vertices have NaN or infinite positions`, target })
+    return
+  }
+
+  const degenerate = countDegenerateTriangles(geometry)
+  if (degenerate > 0) {
+    warnings.push({ code: 'degenerate-triangles', message: `${degenerate} triangles have zero area`, target })
+  }
+}
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+
+function countDegenerateTriangles(geometry: THREE.BufferGeometry): number {
+  const position = geometry.attributes.position
+  const index = geometry.index
+  const triangles = Math.floor((index ? index.count : position.count) / 3)
+  const vertexAt = (i: number) => (index ? index.getX(i) : i)
+
+  let degenerate = 0
+  for (let t = 0; t < triangles; t++) {
+    const ia = vertexAt(t * 3)
+    const ib = vertexAt(t * 3 + 1)
+    const ic = vertexAt(t * 3 + 2)
+    if (ia === ib || ib === ic || ia === ic) {
+      degenerate++
+      continue
+    }
+    _a.fromBufferAttribute(position, ia)
+    _b.fromBufferAttribute(position, ib).sub(_a)
+    _c.fromBufferAttribute(position, ic).sub(_a)
+    // area relative to the longest edge, so the check does not depend on model units
+    const edge = Math.max(_b.lengthSq(), _c.lengthSq(), _a.subVectors(_c, _b).lengthSq())
+    if (_b.cross(_c).lengthSq() <= edge * edge * 1e-12) degenerate++
+  }
+  return degenerate
+}
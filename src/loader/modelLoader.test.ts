@@ -1,29 +1,68 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import * as THREE from 'three'
-import { loadModelByUrl } from './modelLoader'
+import { loadModelByUrl, loadModelFromData, ModelLoadAbortError } from './modelLoader'
+import { registerModelFormat, unregisterModelFormat } from './formatRegistry'
+import { MemoryByteStorage, PersistentModelCache } from './persistentCache'
+import { disposeDecoders, setLoaderConfig } from './config'
+import { applyVariant, getMaterialVariants } from './materialVariants'
+import { getMergedParts } from '../core/mergedParts'
+
+const setKTX2Loader = vi.fn()
+const setDRACOLoader = vi.fn()
+const setMeshoptDecoder = vi.fn()
+const dracoDispose = vi.fn()
+const gltfParse = vi.fn((_data: ArrayBuffer, _path: string, onLoad: any) => {
+    onLoad({ scene: new THREE.Group() })
+})
 
 // Mock GLTFLoader
 vi.mock('three/examples/jsm/loaders/GLTFLoader.js', () => ({
     GLTFLoader: class {
-        load(_url: string, onLoad: any) {
-            onLoad({ scene: new THREE.Group() })
+        parse(data: ArrayBuffer, path: string, onLoad: any) {
+            gltfParse(data, path, onLoad)
         }
-        setDRACOLoader() { }
+        setDRACOLoader = setDRACOLoader
+        setKTX2Loader = setKTX2Loader
+        setMeshoptDecoder = setMeshoptDecoder
+        setRequestHeader() { return this }
+        setWithCredentials() { return this }
+        setCrossOrigin() { return this }
     }
 }))
 
 vi.mock('three/examples/jsm/loaders/DRACOLoader.js', () => ({
     DRACOLoader: class {
-        setDecoderPath() { }
+        setDecoderPath() { return this }
+        setWorkerLimit() { return this }
+        dispose = dracoDispose
     }
 }))
 
+vi.mock('three/examples/jsm/libs/meshopt_decoder.module.js', () => ({
+    MeshoptDecoder: { ready: Promise.resolve(), useWorkers() { } },
+}))
+
 vi.mock('three/examples/jsm/loaders/KTX2Loader.js', () => ({
     KTX2Loader: class {
         setTranscoderPath() { return this }
+        setWorkerLimit() { return this }
+        detectedFrom: unknown = null
+        detectSupport(renderer: unknown) { this.detectedFrom = renderer; return this }
+        dispose() { }
+        setRequestHeader() { return this }
+        setWithCredentials() { return this }
+        setCrossOrigin() { return this }
     }
 }))
 
+beforeEach(() => {
+    gltfParse.mockClear()
+    setKTX2Loader.mockClear()
+    setDRACOLoader.mockClear()
+    setMeshoptDecoder.mockClear()
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new ArrayBuffer(8))))
+})
+
 describe('modelLoader - Texture Optimization', () => {
     it('should call downscaleTexturesInObject when maxTextureSize is set', async () => {
         // This is hard to test deeply without real images, but we can check if it runs without crashing
@@ -38,4 +77,434 @@ describe('modelLoader - Texture Optimization', () => {
         expect(model1).not.toBe(model2) // Should be clones
         expect(model1.type).toBe(model2.type)
     })
+
+    it('should keep animation clips as AnimationClips on cached clones', async () => {
+        const clip = new THREE.AnimationClip('spin', 1, [new THREE.NumberKeyframeTrack('.rotation[y]', [0, 1], [0, 1])])
+        gltfParse.mockImplementationOnce((_data: ArrayBuffer, _path: string, onLoad: any) => onLoad({ scene: new THREE.Group(), animations: [clip] }))
+
+        await loadModelByUrl('animated.glb')
+        const copy = await loadModelByUrl('animated.glb')
+
+        expect(copy.userData.animations[0]).toBe(clip)
+    })
+})
+
+describe('modelLoader - Format resolution', () => {
+    it('should ignore query strings and hash fragments', async () => {
+        await loadModelByUrl('https://cdn.example.com/model.glb?token=a.b#part', { useCache: false })
+        expect(gltfParse).toHaveBeenCalledTimes(1)
+    })
+
+    it('should use the response Content-Type for extensionless endpoints', async () => {
+        vi.mocked(fetch).mockImplementationOnce(async () => new Response(new ArrayBuffer(8), {
+            headers: { 'Content-Type': 'model/gltf-binary' }
+        }))
+        await loadModelByUrl('https://api.example.com/models/42', { useCache: false })
+        expect(gltfParse).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe('modelLoader - Abort', () => {
+    it('should reject immediately with an already aborted signal', async () => {
+        const controller = new AbortController()
+        controller.abort()
+
+        await expect(loadModelByUrl('aborted.glb', { signal: controller.signal }))
+            .rejects.toBeInstanceOf(ModelLoadAbortError)
+        expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('should not cache a model aborted during download', async () => {
+        const controller = new AbortController()
+        vi.mocked(fetch).mockImplementationOnce(async () => {
+            controller.abort()
+            throw new DOMException('aborted', 'AbortError')
+        })
+
+        await expect(loadModelByUrl('abort-mid.glb', { signal: controller.signal }))
+            .rejects.toBeInstanceOf(ModelLoadAbortError)
+
+        await loadModelByUrl('abort-mid.glb')
+        expect(gltfParse).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe('modelLoader - Progress', () => {
+    it('should report download bytes and phases in order', async () => {
+        vi.mocked(fetch).mockImplementationOnce(async () => new Response(new ArrayBuffer(16), {
+            headers: { 'Content-Length': '16' }
+        }))
+        const onProgress = vi.fn()
+
+        await loadModelByUrl('progress.glb', { onProgress, useCache: false })
+
+        const events = onProgress.mock.calls.map(([ev]) => ev)
+        expect(events.map((ev) => ev.phase)).toEqual(expect.arrayContaining(['downloading', 'decoding', 'done']))
+        expect(events.find((ev) => ev.phase === 'decoding')).toMatchObject({ loaded: 16, total: 16 })
+        expect(events[events.length - 1]).toMatchObject({ phase: 'done', progress: 1 })
+    })
+
+    it('should report every phase to the caller starting a shared load', async () => {
+        vi.mocked(fetch).mockImplementationOnce(async () => new Response(new ArrayBuffer(16), {
+            headers: { 'Content-Length': '16' }
+        }))
+        const onProgress = vi.fn()
+
+        await loadModelByUrl('shared-progress.glb', { onProgress })
+
+        const events = onProgress.mock.calls.map(([ev]) => ev)
+        // the opening event, sent before any byte arrives
+        expect(events[0]).toMatchObject({ phase: 'downloading', loaded: 0, progress: 0 })
+        const phases = events.map((ev) => ev.phase)
+        expect(phases.filter((phase, i) => phase !== phases[i - 1])).toEqual(['downloading', 'decoding', 'done'])
+    })
+})
+
+describe('modelLoader - In-memory data', () => {
+    it('should parse a Blob with an explicit format without fetching', async () => {
+        const model = await loadModelFromData(new Blob([new ArrayBuffer(8)]), { format: 'glb' })
+
+        expect(model).toBeInstanceOf(THREE.Group)
+        expect(model.userData.animations).toEqual([])
+        expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('should infer the format from a File name', async () => {
+        const file = new File([new ArrayBuffer(8)], 'dropped.GLB')
+        await loadModelFromData(file)
+        expect(gltfParse).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fail when the format of a raw buffer cannot be detected', async () => {
+        await expect(loadModelFromData(new ArrayBuffer(8))).rejects.toThrow('Unable to detect model format')
+    })
+
+    it('should sniff binary glTF from its magic bytes', async () => {
+        const glb = new TextEncoder().encode('glTF\x02\x00\x00\x00').buffer
+        await loadModelFromData(glb)
+        expect(gltfParse).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe('modelLoader - Format registry', () => {
+    it('should load custom formats through the shared pipeline', async () => {
+        const parse = vi.fn(() => ({ scene: new THREE.Group(), animations: [] }))
+        registerModelFormat('.CUSTOM', () => parse)
+        const onProgress = vi.fn()
+
+        const model = await loadModelByUrl('part.custom?v=2', { onProgress, useCache: false })
+
+        expect(parse).toHaveBeenCalledTimes(1)
+        expect(model.userData.animations).toEqual([])
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ phase: 'done' }))
+        unregisterModelFormat('custom')
+    })
+
+    it('should reject unregistered formats', async () => {
+        await expect(loadModelByUrl('part.unknown', { useCache: false })).rejects.toThrow('Unsupported model extension: .unknown')
+    })
+})
+
+describe('modelLoader - Geometry-only formats', () => {
+    const asciiStl = `solid tri
+facet normal 0 0 1
+ outer loop
+  vertex 0 0 0
+  vertex 1 0 0
+  vertex 0 1 0
+ endloop
+endfacet
+endsolid tri`
+
+    it('should wrap STL geometry into a named Mesh', async () => {
+        const file = new File([asciiStl], 'bracket.stl')
+        const model = await loadModelFromData(file)
+
+        expect((model as THREE.Mesh).isMesh).toBe(true)
+        expect(model.name).toBe('bracket')
+        expect((model as THREE.Mesh).geometry.getAttribute('normal')).toBeDefined()
+    })
+
+    it('should use a clone of the configured default material', async () => {
+        const material = new THREE.MeshPhongMaterial({ color: 0xff0000 })
+        const model = await loadModelFromData(new TextEncoder().encode(asciiStl).buffer, { format: 'stl', defaultMaterial: material }) as THREE.Mesh
+
+        expect(model.material).toBeInstanceOf(THREE.MeshPhongMaterial)
+        expect(model.material).not.toBe(material)
+    })
+
+    it('should run geometry passes and attach the report', async () => {
+        const file = new File([asciiStl], 'bracket.stl')
+        const model = await loadModelFromData(file, { geometry: { weld: true } }) as THREE.Mesh
+
+        expect(model.geometry.index).not.toBeNull()
+        expect(model.userData.geometryReport.after).toMatchObject({ vertices: 3, triangles: 1 })
+    })
+
+    /** Two 4-unit boxes at x = -5 and x = 5 sharing one material */
+    const twoBoxes = () => {
+        const root = new THREE.Group()
+        const material = new THREE.MeshStandardMaterial()
+        ;[-5, 5].forEach((x) => {
+            const mesh = new THREE.Mesh(new THREE.BoxGeometry(4, 4, 4), material)
+            mesh.position.x = x
+            root.add(mesh)
+        })
+        return root
+    }
+
+    it('should quantize after merging so the merged model keeps its size', async () => {
+        registerModelFormat('boxes', () => twoBoxes)
+        try {
+            const model = await loadModelFromData(new ArrayBuffer(0), { format: 'boxes', mergeGeometries: true, geometry: { quantize: true } })
+
+            let merged: THREE.Mesh | null = null
+            model.traverse((child) => { if ((child as THREE.Mesh).isMesh) merged = child as THREE.Mesh })
+            expect(merged!.geometry.attributes.position.array).toBeInstanceOf(Int16Array)
+            const box = new THREE.Box3().setFromObject(model)
+            expect(box.min.x).toBeCloseTo(-7, 2)
+            expect(box.max.x).toBeCloseTo(7, 2)
+            expect(box.max.y).toBeCloseTo(2, 2)
+        } finally {
+            unregisterModelFormat('boxes')
+        }
+    })
+
+    it('should keep part centers in place when quantizing a merge with preserveParts', async () => {
+        registerModelFormat('boxes', () => twoBoxes)
+        try {
+            const model = await loadModelFromData(new ArrayBuffer(0), { format: 'boxes', mergeGeometries: 'preserveParts', geometry: { quantize: true } })
+
+            let merged: THREE.Mesh | null = null
+            model.traverse((child) => { if ((child as THREE.Mesh).isMesh) merged = child as THREE.Mesh })
+            expect(merged!.geometry.attributes.position.array).toBeInstanceOf(Int16Array)
+            model.updateMatrixWorld(true)
+            // what the click handler reports for a picked part
+            const positions = getMergedParts(merged).map((part) => new THREE.Vector3().fromArray(part.center).applyMatrix4(merged!.matrixWorld))
+            expect(positions.map((p) => p.x).sort((a, b) => a - b)).toEqual([expect.closeTo(-5, 2), expect.closeTo(5, 2)])
+            positions.forEach((p) => expect(p.y).toBeCloseTo(0, 2))
+        } finally {
+            unregisterModelFormat('boxes')
+        }
+    })
+})
+
+describe('modelLoader - Persistent byte cache', () => {
+    const flush = () => new Promise((r) => setTimeout(r, 0))
+
+    it('should serve versioned models from storage without a request', async () => {
+        const persistentCache = new PersistentModelCache({ storage: new MemoryByteStorage() })
+        setLoaderConfig({ persistentCache })
+
+        await loadModelByUrl('plant.glb', { cacheVersion: '7', useCache: false })
+        await flush()
+        await loadModelByUrl('plant.glb', { cacheVersion: '7', useCache: false })
+
+        expect(fetch).toHaveBeenCalledTimes(1)
+        expect(gltfParse).toHaveBeenCalledTimes(2)
+        setLoaderConfig({ persistentCache: null })
+    })
+
+    it('should revalidate unversioned models with their ETag', async () => {
+        const persistentCache = new PersistentModelCache({ storage: new MemoryByteStorage() })
+        setLoaderConfig({ persistentCache })
+        vi.mocked(fetch)
+            .mockImplementationOnce(async () => new Response(new ArrayBuffer(8), { headers: { ETag: '"v1"' } }))
+            .mockImplementationOnce(async () => new Response(null, { status: 304 }))
+
+        await loadModelByUrl('line.glb', { useCache: false })
+        await flush()
+        await loadModelByUrl('line.glb', { useCache: false })
+
+        const [, init] = vi.mocked(fetch).mock.calls[1]
+        expect((init!.headers as Record<string, string>)['If-None-Match']).toBe('"v1"')
+        expect(gltfParse).toHaveBeenCalledTimes(2)
+        setLoaderConfig({ persistentCache: null })
+    })
+
+    it('should store the model again when its bytes vanished behind a 304', async () => {
+        const storage = new MemoryByteStorage()
+        setLoaderConfig({ persistentCache: new PersistentModelCache({ storage }) })
+        vi.mocked(fetch)
+            .mockImplementationOnce(async () => new Response(new ArrayBuffer(8), { headers: { ETag: '"v1"' } }))
+            .mockImplementationOnce(async () => new Response(null, { status: 304 }))
+            .mockImplementationOnce(async () => new Response(new ArrayBuffer(8), { headers: { ETag: '"v2"' } }))
+            .mockImplementationOnce(async () => new Response(null, { status: 304 }))
+
+        await loadModelByUrl('lost.glb', { useCache: false })
+        await flush()
+        vi.spyOn(storage, 'getData').mockResolvedValueOnce(undefined)
+        await loadModelByUrl('lost.glb', { useCache: false })
+        await flush()
+        await loadModelByUrl('lost.glb', { useCache: false })
+
+        const conditions = vi.mocked(fetch).mock.calls.map(([, init]) => (init!.headers as Record<string, string>)['If-None-Match'])
+        expect(conditions).toEqual([undefined, '"v1"', undefined, '"v2"'])
+        expect(gltfParse).toHaveBeenCalledTimes(3)
+        setLoaderConfig({ persistentCache: null })
+    })
+})
+
+describe('modelLoader - Concurrent loads', () => {
+    it('should share one request and one parse between concurrent callers', async () => {
+        const [a, b] = await Promise.all([
+            loadModelByUrl('shared.glb'),
+            loadModelByUrl('shared.glb'),
+        ])
+
+        expect(fetch).toHaveBeenCalledTimes(1)
+        expect(gltfParse).toHaveBeenCalledTimes(1)
+        expect(a).not.toBe(b)
+    })
+
+    it('should keep loading for other callers when one aborts', async () => {
+        const controller = new AbortController()
+        const aborted = loadModelByUrl('shared-abort.glb', { signal: controller.signal })
+        const kept = loadModelByUrl('shared-abort.glb')
+        controller.abort()
+
+        await expect(aborted).rejects.toBeInstanceOf(ModelLoadAbortError)
+        await expect(kept).resolves.toBeInstanceOf(THREE.Group)
+        expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep reporting progress to a caller sharing its callback with one that aborts', async () => {
+        const onProgress = vi.fn()
+        const controller = new AbortController()
+        const aborted = loadModelByUrl('shared-callback.glb', { signal: controller.signal, onProgress })
+        const kept = loadModelByUrl('shared-callback.glb', { onProgress })
+        controller.abort()
+
+        await expect(aborted).rejects.toBeInstanceOf(ModelLoadAbortError)
+        await kept
+        expect(onProgress.mock.calls.filter(([ev]) => ev.phase === 'done')).toHaveLength(1)
+    })
+})
+
+describe('modelLoader - Retry', () => {
+    it('should retry failed downloads with the global policy', async () => {
+        const onDownloadAttempt = vi.fn()
+        setLoaderConfig({ retry: { maxAttempts: 2, baseDelay: 1 }, onDownloadAttempt })
+        vi.mocked(fetch).mockImplementationOnce(async () => new Response(null, { status: 503 }))
+
+        await expect(loadModelByUrl('flaky.glb', { useCache: false })).resolves.toBeInstanceOf(THREE.Group)
+        expect(fetch).toHaveBeenCalledTimes(2)
+        expect(onDownloadAttempt).toHaveBeenCalledTimes(2)
+        setLoaderConfig({ retry: { maxAttempts: 1, baseDelay: 500 }, onDownloadAttempt: null })
+    })
+})
+
+describe('modelLoader - Request customization', () => {
+    it('should resolve asset IDs and send configured headers and credentials', async () => {
+        setLoaderConfig({
+            resolveUrl: (url) => url === 'pump-01' ? 'models/pump.glb' : url,
+            basePath: 'https://cdn.example.com/assets/',
+            requestHeaders: { Authorization: 'Bearer token' },
+            withCredentials: true,
+        })
+
+        await loadModelByUrl('pump-01', { useCache: false })
+
+        const [requestUrl, init] = vi.mocked(fetch).mock.calls[0]
+        expect(requestUrl).toBe('https://cdn.example.com/assets/models/pump.glb')
+        expect((init!.headers as Record<string, string>).Authorization).toBe('Bearer token')
+        expect(init!.credentials).toBe('include')
+        expect(gltfParse.mock.calls[0][1]).toBe('https://cdn.example.com/assets/models/')
+        setLoaderConfig({ resolveUrl: null, basePath: '', requestHeaders: {}, withCredentials: false })
+    })
+})
+
+/** Minimal GLB made of a JSON chunk only */
+function glbWithJson(gltf: object): ArrayBuffer {
+    const json = new TextEncoder().encode(JSON.stringify({ asset: { version: '2.0' }, ...gltf }).padEnd(64))
+    const buffer = new ArrayBuffer(20 + json.length)
+    const view = new DataView(buffer)
+    view.setUint32(0, 0x46546c67, true)
+    view.setUint32(4, 2, true)
+    view.setUint32(8, buffer.byteLength, true)
+    view.setUint32(12, json.length, true)
+    view.setUint32(16, 0x4e4f534a, true)
+    new Uint8Array(buffer).set(json, 20)
+    return buffer
+}
+
+describe('modelLoader - KTX2', () => {
+    const ktx2Glb = () => glbWithJson({ extensionsUsed: ['KHR_texture_basisu'], extensionsRequired: ['KHR_texture_basisu'] })
+
+    it('should fail clearly when KTX2 textures are required but no renderer was provided', async () => {
+        await expect(loadModelFromData(ktx2Glb(), { format: 'glb' })).rejects.toThrow(/no renderer/)
+        expect(gltfParse).not.toHaveBeenCalled()
+    })
+
+    it('should share one KTX2 loader across loads once capabilities are known', async () => {
+        setLoaderConfig({ ktx2Capabilities: { etc2Supported: true } })
+
+        await loadModelFromData(ktx2Glb(), { format: 'glb' })
+        await loadModelFromData(ktx2Glb(), { format: 'glb' })
+
+        expect(setKTX2Loader).toHaveBeenCalledTimes(2)
+        expect(setKTX2Loader.mock.calls[0][0]).toBe(setKTX2Loader.mock.calls[1][0])
+        expect(setKTX2Loader.mock.calls[0][0].workerConfig.etc2Supported).toBe(true)
+        setLoaderConfig({ ktx2Capabilities: null })
+    })
+
+    it('should detect KTX2 support from the renderer when one is configured', async () => {
+        const renderer = {} as THREE.WebGLRenderer
+        setLoaderConfig({ renderer, ktx2Capabilities: { astcSupported: true } })
+
+        await loadModelFromData(ktx2Glb(), { format: 'glb' })
+
+        expect(setKTX2Loader.mock.calls[0][0].detectedFrom).toBe(renderer)
+        expect(setKTX2Loader.mock.calls[0][0].workerConfig).toBeUndefined()
+        setLoaderConfig({ renderer: null, ktx2Capabilities: null })
+    })
+})
+
+describe('modelLoader - Shared decoders', () => {
+    it('should reuse one Draco loader across loads until decoders are disposed', async () => {
+        await loadModelFromData(new ArrayBuffer(8), { format: 'glb' })
+        await loadModelFromData(new ArrayBuffer(8), { format: 'glb' })
+        expect(setDRACOLoader.mock.calls[0][0]).toBe(setDRACOLoader.mock.calls[1][0])
+
+        disposeDecoders()
+        await Promise.resolve()
+        expect(dracoDispose).toHaveBeenCalled()
+
+        await loadModelFromData(new ArrayBuffer(8), { format: 'glb' })
+        expect(setDRACOLoader.mock.calls[2][0]).not.toBe(setDRACOLoader.mock.calls[0][0])
+    })
+
+    it('should decode meshopt-compressed models with the shared MeshoptDecoder', async () => {
+        await loadModelFromData(new ArrayBuffer(8), { format: 'glb' })
+        expect(setMeshoptDecoder).not.toHaveBeenCalled()
+
+        await loadModelFromData(glbWithJson({ extensionsUsed: ['EXT_meshopt_compression'] }), { format: 'glb' })
+        expect(setMeshoptDecoder).toHaveBeenCalledTimes(1)
+        expect(setMeshoptDecoder.mock.calls[0][0].ready).toBeInstanceOf(Promise)
+    })
+})
+
+describe('modelLoader - Material variants', () => {
+    it('should keep KHR_materials_variants on cached clones', async () => {
+        const midnight = new THREE.MeshStandardMaterial({ name: 'midnight' })
+        gltfParse.mockImplementationOnce((_data: ArrayBuffer, _path: string, onLoad: any) => {
+            const scene = new THREE.Group()
+            const sole = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial())
+            sole.userData.gltfExtensions = { KHR_materials_variants: { mappings: [{ material: 0, variants: [0] }] } }
+            scene.add(sole)
+            onLoad({
+                scene,
+                userData: { gltfExtensions: { KHR_materials_variants: { variants: [{ name: 'midnight' }] } } },
+                parser: { getDependency: async () => midnight, assignFinalMaterial: () => { } },
+            })
+        })
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(glbWithJson({ extensionsUsed: ['KHR_materials_variants'] }))))
+
+        await loadModelByUrl('shoe.glb')
+        const copy = await loadModelByUrl('shoe.glb')
+
+        expect(getMaterialVariants(copy)).toEqual(['midnight'])
+        applyVariant(copy, 'midnight')
+        expect((copy.children[0] as THREE.Mesh).material).toBe(midnight)
+    })
 })
@@ -1,61 +1,173 @@
 /**
  * @file modelLoader.ts
  * @description
- * Utility to load 3D models (GLTF, FBX, OBJ, PLY, STL) from URLs.
+ * Utility to load 3D models (GLTF, FBX, OBJ, PLY, STL, 3MF, DAE, 3DS, USDZ, VRML) and point clouds (PLY, XYZ, PCD)
+ * from URLs or in-memory data.
  *
  * @best-practice
- * - Use `loadModelByUrl` for a unified loading interface.
- * - Supports Draco compression and KTX2 textures for GLTF.
+ * - Use `loadModelByUrl` for a unified loading interface, `loadModelFromData` for dropped files and blobs.
+ * - Supports Draco / meshopt compression and KTX2 textures for GLTF (KTX2 needs `setLoaderConfig({ renderer })`).
+ * - Decoders are shared across loads; call `disposeDecoders()` to free their workers.
+ * - Custom formats can be plugged in with `registerModelFormat` (see `formatRegistry.ts`).
+ * - Multi-file assets can be loaded as one zip (see `zipBundle.ts`); OBJ files pick up their MTL materials.
  * - Includes optimization options like geometry merging and texture downscaling.
+ * - Pass an `AbortSignal` as `signal` to cancel loads the user no longer needs.
+ * - Parsed models are kept in an LRU cache (see `modelCache.ts`) and returned as clones;
+ *   concurrent loads of the same model share one download and one parse.
+ * - Downloaded bytes can also be kept across sessions (see `persistentCache.ts`).
+ * - Downloads follow the retry policy and mirrors of `setLoaderConfig` (see `retry.ts`).
+ * - URLs may be logical asset IDs mapped by `setLoaderConfig({ resolveUrl, basePath })`;
+ *   request headers and credentials of the config apply to the model and its dependent resources.
+ * - Pass `onProgress` to drive a loading bar (bytes + phase); see `loadProgress.ts` for batches.
+ * - Animation clips land on `userData.animations`; play them with `createAnimationController` (see `effect/animationController.ts`).
+ * - Pass `geometry` to clean up raw CAD geometry (see `geometryOptimizer.ts`).
+ * - Pass `lod` to render large assemblies with per-mesh levels of detail (see `modelLod.ts`).
+ * - Pass `normalize` for Z-up / millimeter / off-origin supplier files (see `modelNormalize.ts`).
+ * - Validate loaded models with `inspectModel` (see `modelInspector.ts`).
+ * - GLTF material variants are listed on the model and switched with `applyVariant` (see `materialVariants.ts`).
+ * - Point clouds load as THREE.Points; pass `pointCloud` for size, coloring and a point budget (see `core/pointCloud.ts`).
  */
 
 import * as THREE from 'three'
-import { getLoaderConfig } from './config'
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js'
+import type { MergedPart } from '../core/mergedParts'
+import { PointCloudOptions, preparePointClouds } from '../core/pointCloud'
+import { createLoadingManager, getLoaderConfig, getRequestInit, resolveAssetUrl } from './config'
+import { getUrlExtension, sniffModelFormat, formatFromContentType } from './formatDetection'
+import { getModelFormatFactory, isModelFormatRegistered, ModelParser } from './formatRegistry'
+import { getCachedModel, setCachedModel } from './modelCache'
+import { GeometryOptimizeOptions, optimizeGeometries } from './geometryOptimizer'
+import { instanceRepeatedMeshes, InstancingOptions } from './instancing'
+import { generateLODs, loadLODChain, ModelLODOptions } from './modelLod'
+import { normalizeModel, NormalizeOptions } from './modelNormalize'
+import { copyMaterialVariants } from './materialVariants'
+import type { PersistentModelCache } from './persistentCache'
+import { HttpStatusError, withRetry } from './retry'
 
-type LoaderLike = {
-  load: (url: string,
-    onLoad: (res: any) => void,
-    onProgress?: (ev: ProgressEvent) => void,
-    onError?: (err: any) => void) => void
+/**
+ * Error thrown when a load is cancelled through `LoadOptions.signal`.
+ * `name` is 'AbortError' so it can be told apart like a native fetch abort.
+ */
+export class ModelLoadAbortError extends Error {
+  readonly url: string
+
+  constructor(url: string) {
+    super(`Model load aborted: ${url}`)
+    this.name = 'AbortError'
+    this.url = url
+  }
+}
+
+/**
+ * Load phases reported through `LoadOptions.onProgress`:
+ * - downloading: fetching the file (bytes loaded/total)
+ * - decoding: parsing the file, including Draco decompression
+ * - downscaling: shrinking textures to `maxTextureSize`
+ * - merging: merging geometries (`mergeGeometries`)
+ * - done: the model is ready
+ */
+export type ModelLoadPhase = 'downloading' | 'decoding' | 'downscaling' | 'merging' | 'done'
+
+export interface ModelLoadProgress {
+  url: string
+  phase: ModelLoadPhase
+  /** Bytes downloaded so far */
+  loaded: number
+  /** Total bytes (0 when the server does not send Content-Length) */
+  total: number
+  /** Overall estimate in [0, 1] across all phases */
+  progress: number
 }
 
+export type ModelProgressCallback = (progress: ModelLoadProgress) => void
+
+/** Share of the overall progress covered by each phase: [start, end] */
+const PHASE_SPANS: Record<ModelLoadPhase, [number, number]> = {
+  downloading: [0, 0.7],
+  decoding: [0.7, 0.85],
+  downscaling: [0.85, 0.95],
+  merging: [0.95, 1],
+  done: [1, 1],
+}
+
+/** Formats supported out of the box; more can be added with `registerModelFormat` */
+export type ModelFormat =
+  | 'gltf' | 'glb' | 'fbx' | 'obj' | 'ply' | 'stl'
+  | '3mf' | 'dae' | '3ds' | 'usdz' | 'wrl' | 'vrml'
+  | 'xyz' | 'pts' | 'pcd'
+  | (string & {})
+
 /** Loading Options: Now has default values */
 export interface LoadOptions {
   manager?: THREE.LoadingManager
+  /**
+   * Explicit model format. When omitted it is taken from the URL / file extension,
+   * then sniffed from the file's magic bytes or the response Content-Type
+   */
+  format?: ModelFormat
   // GLTF-specific
   dracoDecoderPath?: string | null
   ktx2TranscoderPath?: string | null
+  /** Transcode KTX2 textures (default true for glTF); needs `setLoaderConfig({ renderer })` */
   useKTX2?: boolean
   // Generic optimizations
-  mergeGeometries?: boolean
+  /** Merge meshes per material; 'preserveParts' keeps a part map for picking (see `core/mergedParts.ts`) */
+  mergeGeometries?: boolean | 'preserveParts'
   maxTextureSize?: number | null
+  /** Geometry cleanup passes (weld, index, normals, tangents, quantize); report on `userData.geometryReport` */
+  geometry?: GeometryOptimizeOptions | null
+  /** Turn meshes sharing geometry and material into InstancedMeshes; picking reports the original part */
+  instancing?: boolean | InstancingOptions
   useSimpleMaterials?: boolean
   skipSkinned?: boolean
+  /** Build a THREE.LOD per mesh from simplified geometry or a chain of level files */
+  lod?: ModelLODOptions | null
+  /** Convert to meters / Y-up, recenter and fit to a size; applied transform on `userData.normalization` */
+  normalize?: NormalizeOptions | null
+  /**
+   * Material for geometry-only formats (STL, PLY), cloned per load.
+   * Default: MeshStandardMaterial; vertex colors are enabled when the geometry has them
+   */
+  defaultMaterial?: THREE.Material | null
+  /**
+   * Size, coloring and point budget of point clouds. Scans (PLY without faces, XYZ / PTS, PCD) are styled by default;
+   * when set, points of other formats are styled too; null keeps the materials of the file
+   */
+  pointCloud?: PointCloudOptions | null
   /** Whether to cache the model (default true) */
   useCache?: boolean
+  /** Use the persistent byte cache configured with `setLoaderConfig({ persistentCache })` (default true) */
+  usePersistentCache?: boolean
+  /** Model version for the persistent cache; when set, cached bytes are used without revalidating */
+  cacheVersion?: string
+  /** Abort signal: cancels the download, skips post-processing and never writes the cache */
+  signal?: AbortSignal
+  /** Progress callback: bytes loaded/total and current phase */
+  onProgress?: ModelProgressCallback
+  /** Main file of a zip bundle when it holds several models (default: picked by format) */
+  bundleEntry?: string
 }
 
-const DEFAULT_OPTIONS: Required<Omit<LoadOptions, 'manager' | 'dracoDecoderPath' | 'ktx2TranscoderPath'>> = {
+const DEFAULT_OPTIONS: Required<Omit<LoadOptions, 'manager' | 'format' | 'dracoDecoderPath' | 'ktx2TranscoderPath' | 'defaultMaterial' | 'cacheVersion' | 'signal' | 'onProgress' | 'lod' | 'geometry' | 'instancing' | 'normalize' | 'bundleEntry' | 'pointCloud'>> = {
   useKTX2: false,
   mergeGeometries: false,
   maxTextureSize: null,
   useSimpleMaterials: false,
   skipSkinned: true,
   useCache: true,
+  usePersistentCache: true,
 }
 
-const modelCache = new Map<string, THREE.Object3D>()
-
 /** Automatically determine which options to enable based on extension (smart judgment) */
-function normalizeOptions(url: string, opts: LoadOptions): LoadOptions {
-  const ext = (url.split('.').pop() || '').toLowerCase()
+function normalizeOptions(ext: string, opts: LoadOptions): LoadOptions {
   const merged: LoadOptions = { ...DEFAULT_OPTIONS, ...opts }
 
-  if (ext === 'gltf' || ext === 'glb') {
+  // zip bundles usually wrap glTF: same decoder defaults
+  if (ext === 'gltf' || ext === 'glb' || ext === 'zip') {
     const globalConfig = getLoaderConfig()
     // gltf/glb defaults to trying draco/ktx2 if user didn't specify
     if (merged.dracoDecoderPath === undefined) merged.dracoDecoderPath = globalConfig.dracoDecoderPath
-    if (merged.useKTX2 === undefined) merged.useKTX2 = true
+    if (opts.useKTX2 === undefined) merged.useKTX2 = true
     if (merged.ktx2TranscoderPath === undefined) merged.ktx2TranscoderPath = globalConfig.ktx2TranscoderPath
   } else {
     // fbx/obj/ply/stl etc. do not need draco/ktx2
@@ -73,74 +185,261 @@ export async function loadModelByUrl(
 ): Promise<THREE.Object3D> {
   if (!url) throw new Error('url required')
 
-  const ext = (url.split('.').pop() || '').toLowerCase()
-  const opts = normalizeOptions(url, options)
-  const manager = opts.manager ?? new THREE.LoadingManager()
+  const baseOpts: LoadOptions = { ...DEFAULT_OPTIONS, ...options }
+  const signal = baseOpts.signal
 
-  // Cache key includes URL and relevant optimization options
-  const cacheKey = `${url}_${opts.mergeGeometries}_${opts.maxTextureSize}_${opts.useSimpleMaterials}`
+  throwIfAborted(signal, url)
 
-  if (opts.useCache && modelCache.has(cacheKey)) {
-    return modelCache.get(cacheKey)!.clone()
+  // LOD chain: coarsest file first, finer files (ending with `url`) stream in afterwards
+  if (options.lod?.urls?.length) {
+    const levelOptions: LoadOptions = { ...options, lod: null }
+    return loadLODChain(
+      [...options.lod.urls, url],
+      (levelUrl, i) => loadModelByUrl(levelUrl, i === 0 ? levelOptions : { ...levelOptions, onProgress: undefined }),
+      { ...options.lod, signal }
+    )
   }
 
-  let loader: LoaderLike
-  if (ext === 'gltf' || ext === 'glb') {
-    const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js')
-    const gltfLoader = new GLTFLoader(manager)
+  if (!baseOpts.useCache) return loadUncached(url, options)
 
-    if (opts.dracoDecoderPath) {
-      const { DRACOLoader } = await import('three/examples/jsm/loaders/DRACOLoader.js')
-      const draco = new DRACOLoader()
-      draco.setDecoderPath(opts.dracoDecoderPath)
-      gltfLoader.setDRACOLoader(draco)
-    }
+  const cacheKey = buildCacheKey(url, baseOpts)
+  const cached = getCachedModel(cacheKey)
 
-    if (opts.useKTX2 && opts.ktx2TranscoderPath) {
-      const { KTX2Loader } = await import('three/examples/jsm/loaders/KTX2Loader.js')
-      const ktx2Loader = new KTX2Loader().setTranscoderPath(opts.ktx2TranscoderPath)
-        ; (gltfLoader as any).__ktx2Loader = ktx2Loader
+  if (cached) {
+    createProgressReporter(url, baseOpts.onProgress).report('done')
+    return cloneModel(cached)
+  }
+
+  // One listener per caller: callers passing the same callback detach independently
+  const { onProgress } = baseOpts
+  const listener: ModelProgressCallback | undefined = onProgress && ((ev) => onProgress(ev))
+
+  // Join a load of the same model already in flight, or start one
+  // the starting caller listens before the fetch begins, so it sees the first 'downloading' event too
+  const load = inFlightLoads.get(cacheKey) ?? startSharedLoad(url, cacheKey, options, listener)
+  load.waiters++
+  if (listener) load.listeners.add(listener)
+
+  // A caller aborting only detaches itself; the download stops once every caller has aborted
+  const onAbort = () => {
+    load.listeners.delete(listener!)
+    if (--load.waiters === 0) {
+      inFlightLoads.delete(cacheKey)
+      load.controller.abort()
     }
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const { object, cached: isCached } = await abortable(load.promise, signal, url)
+    load.listeners.delete(listener!)
+    if (isCached || load.claimed) return cloneModel(object)
+    // Too big for the cache: the first caller gets the original, later ones a clone
+    load.claimed = true
+    return object
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/** A load shared by every concurrent caller with the same cache key */
+type InFlightLoad = {
+  promise: Promise<{ object: THREE.Object3D, cached: boolean }>
+  controller: AbortController
+  listeners: Set<ModelProgressCallback>
+  waiters: number
+  claimed: boolean
+}
+
+const inFlightLoads = new Map<string, InFlightLoad>()
+
+function startSharedLoad(url: string, cacheKey: string, options: LoadOptions, onProgress?: ModelProgressCallback): InFlightLoad {
+  const controller = new AbortController()
+  const listeners = new Set<ModelProgressCallback>(onProgress ? [onProgress] : [])
+
+  const load: InFlightLoad = {
+    controller,
+    listeners,
+    waiters: 0,
+    claimed: false,
+    promise: loadUncached(url, {
+      ...options,
+      signal: controller.signal,
+      onProgress: (ev) => listeners.forEach((l) => l(ev)),
+    }).then((object) => ({ object, cached: setCachedModel(cacheKey, url, object) }))
+  }
 
-    loader = gltfLoader as any
-  } else if (ext === 'fbx') {
-    const { FBXLoader } = await import('three/examples/jsm/loaders/FBXLoader.js')
-    loader = new FBXLoader(manager)
-
-  } else if (ext === 'obj') {
-    const { OBJLoader } = await import('three/examples/jsm/loaders/OBJLoader.js')
-    loader = new OBJLoader(manager)
-  } else if (ext === 'ply') {
-    const { PLYLoader } = await import('three/examples/jsm/loaders/PLYLoader.js')
-    loader = new PLYLoader(manager)
-  } else if (ext === 'stl') {
-    const { STLLoader } = await import('three/examples/jsm/loaders/STLLoader.js')
-    loader = new STLLoader(manager)
+  const settle = () => {
+    if (inFlightLoads.get(cacheKey) === load) inFlightLoads.delete(cacheKey)
+  }
+  load.promise.then(settle, settle)
+
+  inFlightLoads.set(cacheKey, load)
+  return load
+}
+
+/** Download, parse and post-process one model, bypassing the in-memory cache */
+async function loadUncached(url: string, options: LoadOptions): Promise<THREE.Object3D> {
+  const baseOpts: LoadOptions = { ...DEFAULT_OPTIONS, ...options }
+  const manager = baseOpts.manager ?? createLoadingManager()
+  const assetUrl = resolveAssetUrl(url)
+  const progress = createProgressReporter(url, baseOpts.onProgress)
+
+  progress.report('downloading')
+  const persistentCache = baseOpts.usePersistentCache ? getLoaderConfig().persistentCache : null
+  const { data, contentType } = await fetchModelData(url, assetUrl, manager, baseOpts.signal, baseOpts.onProgress && ((loaded, total) => {
+    progress.setBytes(loaded, total)
+    progress.report('downloading', total > 0 ? Math.min(1, loaded / total) : 0)
+  }), persistentCache, baseOpts.cacheVersion)
+  progress.setBytes(data.byteLength, data.byteLength)
+
+  const format = resolveModelFormat(assetUrl, data, baseOpts.format, contentType)
+  const opts = normalizeOptions(format, options)
+  const parse = await createModelParser(format, manager, opts)
+  return parseAndProcess(parse, data, THREE.LoaderUtils.extractUrlBase(assetUrl), url, opts, progress)
+}
+
+/**
+ * Cache key: URL + every option that changes the resulting object.
+ * Keep in sync when adding options to LoadOptions.
+ */
+function buildCacheKey(url: string, opts: LoadOptions): string {
+  return JSON.stringify([
+    url,
+    opts.format ?? null,
+    opts.dracoDecoderPath ?? null,
+    opts.ktx2TranscoderPath ?? null,
+    opts.useKTX2 ?? null,
+    opts.mergeGeometries,
+    opts.maxTextureSize,
+    opts.useSimpleMaterials,
+    opts.skipSkinned,
+    opts.defaultMaterial?.uuid ?? null,
+    opts.pointCloud ?? null,
+    opts.geometry ?? null,
+    opts.instancing ?? null,
+    opts.lod?.ratios ?? null,
+    opts.lod?.distanceFactor ?? null,
+    opts.normalize ?? null,
+    opts.bundleEntry ?? null,
+    opts.cacheVersion ?? null,
+  ])
+}
+
+/** Options for `loadModelFromData` */
+export interface ModelDataOptions extends LoadOptions {
+  /** Base path used to resolve external resources referenced by the model (.bin, textures) */
+  resourcePath?: string
+}
+
+/**
+ * Load a model from in-memory data (drag & drop files, binary blobs from a backend)
+ * - Same optimization options as `loadModelByUrl`, GLTF animations exposed on `userData.animations`
+ * - The result is not cached: the data has no stable identity
+ * - Format: `options.format`, else the File name extension, else sniffed from the bytes
+ * @param data ArrayBuffer, Blob or File
+ * @param options Load options
+ */
+export async function loadModelFromData(
+  data: ArrayBuffer | Blob | File,
+  options: ModelDataOptions = {}
+): Promise<THREE.Object3D> {
+  if (!data) throw new Error('data required')
+
+  const fileName = typeof File !== 'undefined' && data instanceof File ? data.name : ''
+  throwIfAborted(options.signal, fileName || '[model data]')
+
+  const blob = typeof Blob !== 'undefined' && data instanceof Blob ? data : null
+  const buffer = blob ? await blobToArrayBuffer(blob) : data as ArrayBuffer
+  const format = resolveModelFormat(fileName, buffer, options.format, blob?.type)
+
+  const label = fileName || `[${format} data]`
+  const opts = normalizeOptions(format, options)
+  const manager = opts.manager ?? createLoadingManager()
+  const parse = await createModelParser(format, manager, opts)
+
+  const progress = createProgressReporter(label, opts.onProgress)
+  progress.setBytes(buffer.byteLength, buffer.byteLength)
+
+  return parseAndProcess(parse, buffer, options.resourcePath ?? '', label, opts, progress)
+}
+
+/**
+ * Work out the format: explicit option, then a supported extension (query/hash stripped),
+ * then magic bytes, then Content-Type
+ */
+function resolveModelFormat(nameOrUrl: string, data: ArrayBuffer, explicit?: string, contentType?: string | null): string {
+  if (explicit) return explicit.toLowerCase()
+
+  const ext = getUrlExtension(nameOrUrl)
+  if (isModelFormatRegistered(ext)) return ext
+
+  const detected = sniffModelFormat(data) ?? formatFromContentType(contentType)
+  if (detected) return detected
+
+  throw new Error(ext
+    ? `Unsupported model extension: .${ext}`
+    : `Unable to detect model format of "${nameOrUrl || '[model data]'}", pass the format option`)
+}
+
+/** Create the parser for a format from the registry */
+async function createModelParser(ext: string, manager: THREE.LoadingManager, opts: LoadOptions): Promise<ModelParser> {
+  const factory = getModelFormatFactory(ext)
+  if (!factory) throw new Error(`Unsupported model extension: .${ext}`)
+  return factory({ manager, options: opts })
+}
+
+/**
+ * Shared pipeline for URL and in-memory loads: parse, expose animations, then optimize
+ * (texture downscale, simple materials, geometry passes, merge, LOD), checking the abort signal between steps
+ */
+async function parseAndProcess(
+  parse: ModelParser,
+  data: ArrayBuffer,
+  resourcePath: string,
+  label: string,
+  opts: LoadOptions,
+  progress: ProgressReporter
+): Promise<THREE.Object3D> {
+  const signal = opts.signal
+
+  progress.report('decoding')
+  const res: any = await abortable(Promise.resolve(parse(data, resourcePath)), signal, label)
+
+  let object: THREE.Object3D
+  if (res && !res.isObject3D && res.scene) {
+    // { scene, animations } records (GLTF, Collada...)
+    const sceneObj = res.scene as THREE.Object3D
+
+    // --- Critical: Expose animations to scene.userData (or scene.animations) ---
+    // So the caller can access clips simply by getting sceneObj.userData.animations
+    sceneObj.userData = sceneObj.userData || {}
+    sceneObj.userData.animations = res.animations ?? []
+    object = sceneObj
+  } else if (res?.isBufferGeometry) {
+    // Geometry-only formats (STL, PLY): build a Mesh so traverse/labels/hover work downstream
+    object = geometryToMesh(res as THREE.BufferGeometry, label, opts.defaultMaterial)
   } else {
-    throw new Error(`Unsupported model extension: .${ext}`)
+    object = res as THREE.Object3D
   }
 
-  const object = await new Promise<THREE.Object3D>((resolve, reject) => {
-    loader.load(
-      url,
-      (res: any) => {
-        if (ext === 'gltf' || ext === 'glb') {
-          const sceneObj = res.scene || res;
-
-          // --- Critical: Expose animations to scene.userData (or scene.animations) ---
-          // So the caller can access clips simply by getting sceneObj.userData.animations
-          (sceneObj as any).userData = (sceneObj as any)?.userData || {};
-          (sceneObj as any).userData.animations = res.animations ?? [];
-          resolve(sceneObj as THREE.Object3D)
-        }
-        else {
-          resolve(res as THREE.Object3D)
-        }
-      },
-      undefined,
-      (err) => reject(err)
-    )
-  })
+  // Aborted after parsing: release what was built, never reach the cache
+  const bailIfAborted = () => {
+    if (!signal?.aborted) return
+    disposeObject(object)
+    throw new ModelLoadAbortError(label)
+  }
+  bailIfAborted()
+
+  // Point clouds: budget first, so coloring and the default size work on the displayed points
+  if (opts.pointCloud !== null) {
+    try {
+      // a Z-up source (`normalize.upAxis`) colors its height along Z; other formats' points only on request
+      preparePointClouds(object, { heightAxis: opts.normalize?.upAxis, ...opts.pointCloud }, !opts.pointCloud)
+    } catch (e) {
+      console.warn('point cloud preparation failed', e)
+    }
+  }
 
   // Optimize
   object.traverse((child) => {
@@ -152,7 +451,12 @@ export async function loadModelByUrl(
     }
   })
 
-  if (opts.maxTextureSize && opts.maxTextureSize > 0) await downscaleTexturesInObject(object, opts.maxTextureSize)
+  if (opts.maxTextureSize && opts.maxTextureSize > 0) {
+    progress.report('downscaling')
+    await downscaleTexturesInObject(object, opts.maxTextureSize)
+  }
+  bailIfAborted()
+
   if (opts.useSimpleMaterials) {
     object.traverse((child) => {
       const m = (child as any).material
@@ -162,22 +466,269 @@ export async function loadModelByUrl(
     })
   }
 
+  if (opts.geometry) {
+    try {
+      // quantization runs last: merge / instancing / LOD need float positions and plain mesh transforms
+      object.userData.geometryReport = await optimizeGeometries(object, { ...opts.geometry, quantize: false })
+    } catch (e) {
+      console.warn('geometry optimization failed', e)
+    }
+  }
+  bailIfAborted()
+
+  if (opts.instancing) {
+    try {
+      instanceRepeatedMeshes(object, opts.instancing === true ? {} : opts.instancing)
+    } catch (e) {
+      console.warn('instancing failed', e)
+    }
+  }
+  bailIfAborted()
+
   if (opts.mergeGeometries) {
+    progress.report('merging')
     try {
-      await tryMergeGeometries(object, { skipSkinned: opts.skipSkinned ?? true })
+      await tryMergeGeometries(object, {
+        skipSkinned: opts.skipSkinned ?? true,
+        preserveParts: opts.mergeGeometries === 'preserveParts',
+      })
     } catch (e) {
       console.warn('mergeGeometries failed', e)
     }
   }
+  bailIfAborted()
 
-  if (opts.useCache) {
-    modelCache.set(cacheKey, object)
-    return object.clone()
+  if (opts.lod?.ratios?.length) {
+    try {
+      await generateLODs(object, opts.lod)
+    } catch (e) {
+      console.warn('LOD generation failed', e)
+    }
   }
+  bailIfAborted()
 
+  if (opts.normalize) {
+    try {
+      normalizeModel(object, opts.normalize)
+    } catch (e) {
+      console.warn('normalization failed', e)
+    }
+  }
+
+  if (opts.geometry?.quantize) {
+    try {
+      const { after } = await optimizeGeometries(object, { quantize: true })
+      if (object.userData.geometryReport) object.userData.geometryReport.after = after
+    } catch (e) {
+      console.warn('geometry quantization failed', e)
+    }
+  }
+  bailIfAborted()
+
+  progress.report('done')
   return object
 }
 
+/**
+ * Clone a cached model for a caller
+ * - Skinned meshes are rebound to the cloned bones so animations move the clone
+ * - Object3D.clone JSON-copies userData: the clips are re-attached as AnimationClip instances (shared, read-only)
+ * - Material variants are kept beside the scene graph and carried over explicitly
+ */
+function cloneModel(object: THREE.Object3D): THREE.Object3D {
+  let skinned = false
+  object.traverse((child) => { if ((child as THREE.SkinnedMesh).isSkinnedMesh) skinned = true })
+  const copy = skinned ? cloneSkinned(object) : object.clone()
+  if (Array.isArray(object.userData.animations)) copy.userData.animations = object.userData.animations.slice()
+  copyMaterialVariants(object, copy)
+  return copy
+}
+
+/**
+ * Wrap a bare BufferGeometry into a Mesh
+ * - Computes normals when missing (flat STL/PLY exports)
+ * - Enables vertex colors when the geometry carries a color attribute
+ * - Names the mesh after the file so name-based tools (labels, hover) can target it
+ */
+function geometryToMesh(geometry: THREE.BufferGeometry, label: string, material?: THREE.Material | null): THREE.Mesh {
+  if (!geometry.getAttribute('normal')) geometry.computeVertexNormals()
+
+  const mat = material ? material.clone() : new THREE.MeshStandardMaterial({ color: 0xcccccc, metalness: 0.1, roughness: 0.8 })
+  if (geometry.getAttribute('color')) mat.vertexColors = true
+
+  // STLLoader reports per-face alpha for colored binary STL
+  const stlAlpha = (geometry as any).alpha
+  if (typeof stlAlpha === 'number' && stlAlpha < 1) {
+    mat.transparent = true
+    mat.opacity = stlAlpha
+  }
+
+  const mesh = new THREE.Mesh(geometry, mat)
+  // label is the URL / file name, or "[stl data]" for anonymous buffers
+  const fileName = /^\[.*\]$/.test(label) ? '' : label.split('#')[0].split('?')[0].split('/').pop() || ''
+  mesh.name = fileName.replace(/\.[^.]*$/, '')
+  return mesh
+}
+
+/** Blob.arrayBuffer with a FileReader fallback for older environments */
+function blobToArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') return blob.arrayBuffer()
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+/* ---------------------
+   Progress Helpers
+   --------------------- */
+
+type ProgressReporter = {
+  setBytes: (loaded: number, total: number) => void
+  report: (phase: ModelLoadPhase, fraction?: number) => void
+}
+
+function createProgressReporter(url: string, onProgress?: ModelProgressCallback): ProgressReporter {
+  let loaded = 0
+  let total = 0
+  return {
+    setBytes(l, t) {
+      loaded = l
+      total = t
+    },
+    report(phase, fraction = 0) {
+      if (!onProgress) return
+      const [start, end] = PHASE_SPANS[phase]
+      onProgress({ url, phase, loaded, total, progress: start + (end - start) * fraction })
+    }
+  }
+}
+
+/* ---------------------
+   Download & Abort Helpers
+   --------------------- */
+
+function throwIfAborted(signal: AbortSignal | undefined, url: string) {
+  if (signal?.aborted) throw new ModelLoadAbortError(url)
+}
+
+/** Reject as soon as the signal aborts, even if the wrapped work cannot be interrupted (e.g. parsing) */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, url: string): Promise<T> {
+  if (!signal) return promise
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new ModelLoadAbortError(url))
+    if (signal.aborted) return onAbort()
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(
+      (v) => { signal.removeEventListener('abort', onAbort); resolve(v) },
+      (e) => { signal.removeEventListener('abort', onAbort); reject(e) }
+    )
+  })
+}
+
+/**
+ * Download the raw model bytes.
+ * Goes through the manager (resolveURL / itemStart / itemEnd) like the three.js loaders do,
+ * but uses fetch directly so the request can be aborted and streamed for progress.
+ * With a persistent cache: versioned hits skip the network, unversioned hits are revalidated by ETag.
+ * @param url Logical URL (persistent cache key)
+ * @param assetUrl URL actually requested (after `resolveUrl` / `basePath`)
+ */
+async function fetchModelData(
+  url: string,
+  assetUrl: string,
+  manager: THREE.LoadingManager,
+  signal?: AbortSignal,
+  onBytes?: (loaded: number, total: number) => void,
+  persistentCache?: PersistentModelCache | null,
+  cacheVersion?: string,
+  revalidate = true
+): Promise<{ data: ArrayBuffer, contentType: string | null }> {
+  const resolvedUrl = manager.resolveURL(assetUrl)
+  const cachedEntry = persistentCache
+    ? await persistentCache.getEntry(url, cacheVersion).catch(() => undefined)
+    : undefined
+
+  manager.itemStart(resolvedUrl)
+  try {
+    if (persistentCache && cachedEntry && cacheVersion) {
+      const data = await persistentCache.read(cachedEntry).catch(() => undefined)
+      if (data) {
+        onBytes?.(data.byteLength, data.byteLength)
+        return { data, contentType: cachedEntry.contentType }
+      }
+    }
+
+    const headers: Record<string, string> = {}
+    if (revalidate && cachedEntry?.etag && !cacheVersion) headers['If-None-Match'] = cachedEntry.etag
+
+    // Retries (and mirrors) cover the whole transfer, so a connection dropped mid-body is retried too
+    const config = getLoaderConfig()
+    const result = await withRetry(assetUrl, async (attemptUrl) => {
+      const requestUrl = manager.resolveURL(attemptUrl)
+      const response = await fetch(requestUrl, { ...getRequestInit(headers), signal })
+      if (response.status === 304) return { notModified: true, data: null, response }
+      if (!response.ok) throw new HttpStatusError(requestUrl, response.status, response.statusText)
+      return { notModified: false, data: await readResponseBody(response, onBytes), response }
+    }, { policy: config.retry, mirrors: config.mirrors, onAttempt: config.onDownloadAttempt ?? undefined, signal })
+
+    if (result.notModified && persistentCache && cachedEntry) {
+      const data = await persistentCache.read(cachedEntry).catch(() => undefined)
+      if (data) {
+        onBytes?.(data.byteLength, data.byteLength)
+        return { data, contentType: cachedEntry.contentType }
+      }
+      // bytes vanished from storage: download again without the condition, and store them again
+      return await fetchModelData(url, assetUrl, manager, signal, onBytes, persistentCache, cacheVersion, false)
+    }
+    if (!result.data) throw new HttpStatusError(resolvedUrl, result.response.status, result.response.statusText)
+
+    const data = result.data
+    const contentType = result.response.headers.get('Content-Type')
+
+    if (persistentCache) {
+      persistentCache
+        .write(url, cacheVersion, data, { etag: result.response.headers.get('ETag'), contentType })
+        .catch((e) => console.warn('persistent model cache write failed', e))
+    }
+
+    return { data, contentType }
+  } catch (e) {
+    manager.itemError(resolvedUrl)
+    if (signal?.aborted) throw new ModelLoadAbortError(url)
+    throw e
+  } finally {
+    manager.itemEnd(resolvedUrl)
+  }
+}
+
+/** Read the response body chunk by chunk so byte progress can be reported */
+async function readResponseBody(response: Response, onBytes?: (loaded: number, total: number) => void): Promise<ArrayBuffer> {
+  const total = Number(response.headers.get('Content-Length')) || 0
+  if (!onBytes || !response.body) return response.arrayBuffer()
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  for (; ;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.byteLength
+    onBytes(loaded, total)
+  }
+
+  const buffer = new Uint8Array(loaded)
+  let offset = 0
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return buffer.buffer
+}
+
 /** Runtime downscale textures in mesh to maxSize (createImageBitmap or canvas) to save GPU memory */
 async function downscaleTexturesInObject(obj: THREE.Object3D, maxSize: number) {
   const tasks: Promise<void>[] = []
@@ -244,14 +795,16 @@ async function downscaleTexturesInObject(obj: THREE.Object3D, maxSize: number) {
  * - Before merging, apply world matrix to each mesh's geometry (so merged geometry is in world space)
  * - Merging will group by material UUID (different materials cannot be merged)
  * - Merge function is compatible with common export names of BufferGeometryUtils
+ * - With `preserveParts`, the merged mesh records the range of each original mesh in `userData.mergedParts`
  */
-async function tryMergeGeometries(root: THREE.Object3D, opts: { skipSkinned: boolean }) {
+async function tryMergeGeometries(root: THREE.Object3D, opts: { skipSkinned: boolean, preserveParts?: boolean }) {
   // collect meshes by material uuid
-  const groups = new Map<string, { material: THREE.Material, geoms: THREE.BufferGeometry[] }>()
+  const groups = new Map<string, { material: THREE.Material, geoms: THREE.BufferGeometry[], meshes: THREE.Mesh[] }>()
   root.traverse((ch) => {
     if (!(ch as any).isMesh) return
     const mesh = ch as THREE.Mesh
     if (opts.skipSkinned && (mesh as any).isSkinnedMesh) return
+    if ((mesh as any).isInstancedMesh) return
     const mat = mesh.material as any
     // don't merge transparent or morph-enabled or skinned meshes
     if (!mesh.geometry || mesh.visible === false) return
@@ -261,8 +814,9 @@ async function tryMergeGeometries(root: THREE.Object3D, opts: { skipSkinned: boo
     geom.applyMatrix4(mesh.matrixWorld)
     // ensure attributes compatible? we'll rely on merge function to return null if incompatible
     const key = (mat && mat.uuid) || 'default'
-    const bucket = groups.get(key) ?? { material: mat ?? new THREE.MeshStandardMaterial(), geoms: [] as THREE.BufferGeometry[] }
+    const bucket = groups.get(key) ?? { material: mat ?? new THREE.MeshStandardMaterial(), geoms: [] as THREE.BufferGeometry[], meshes: [] as THREE.Mesh[] }
     bucket.geoms.push(geom)
+    bucket.meshes.push(mesh)
     groups.set(key, bucket)
     // mark for removal (we'll remove meshes after)
     mesh.userData.__toRemoveForMerge = true
@@ -282,19 +836,24 @@ async function tryMergeGeometries(root: THREE.Object3D, opts: { skipSkinned: boo
   if (!mergeFn) throw new Error('No merge function found in BufferGeometryUtils')
 
   // for each group, try merge
-  for (const [key, { material, geoms }] of groups) {
+  for (const [key, { material, geoms, meshes }] of groups) {
+    // keep the original meshes of groups that are not merged
+    const keepOriginals = () => meshes.forEach((m) => { delete m.userData.__toRemoveForMerge })
     if (geoms.length <= 1) {
       // nothing to merge
+      keepOriginals()
       continue
     }
     // call merge function - signature typically mergeBufferGeometries(array, useGroups)
     const merged = mergeFn(geoms, false)
     if (!merged) {
       console.warn('merge returned null for group', key)
+      keepOriginals()
       continue
     }
     // create merged mesh at root (world-space geometry already applied)
     const mergedMesh = new THREE.Mesh(merged, material)
+    if (opts.preserveParts) mergedMesh.userData.mergedParts = buildPartMap(meshes, geoms, !!merged.index)
     root.add(mergedMesh)
   }
 
@@ -314,6 +873,32 @@ async function tryMergeGeometries(root: THREE.Object3D, opts: { skipSkinned: boo
   })
 }
 
+/** Ranges of each source mesh inside a merged geometry, in merge order */
+function buildPartMap(meshes: THREE.Mesh[], geoms: THREE.BufferGeometry[], indexed: boolean): MergedPart[] {
+  let start = 0
+  let vertexStart = 0
+  return meshes.map((mesh, i) => {
+    const geom = geoms[i]
+    const vertexCount = geom.attributes.position.count
+    const count = indexed ? geom.index!.count : vertexCount
+    geom.computeBoundingBox()
+    const { __toRemoveForMerge, ...userData } = mesh.userData
+    const part: MergedPart = {
+      name: mesh.name,
+      uuid: mesh.uuid,
+      userData,
+      start,
+      count,
+      vertexStart,
+      vertexCount,
+      center: geom.boundingBox!.getCenter(new THREE.Vector3()).toArray() as [number, number, number],
+    }
+    start += count
+    vertexStart += vertexCount
+    return part
+  })
+}
+
 /* ---------------------
    Dispose Utils
    --------------------- */
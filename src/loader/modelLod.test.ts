@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest'
+import * as THREE from 'three'
+import { generateLODs, loadLODChain } from './modelLod'
+
+function modelWithPart(detail: number): THREE.Group {
+    const root = new THREE.Group()
+    const part = new THREE.Mesh(new THREE.SphereGeometry(1, detail, detail), new THREE.MeshStandardMaterial())
+    part.name = 'part'
+    part.position.set(5, 0, 0)
+    root.add(part)
+    return root
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+/** Coarsest level loads at once, finer levels on the next tick */
+const delayedLoad = (coarsest: string, detail: (url: string) => number) =>
+    vi.fn(async (url: string) => {
+        if (url !== coarsest) await flush()
+        return modelWithPart(detail(url))
+    })
+
+describe('modelLod - Simplified levels', () => {
+    it('should wrap meshes in LODs with coarser levels at bounding-sphere distances', async () => {
+        const root = modelWithPart(16)
+        const [lod] = await generateLODs(root, { ratios: [0.2, 0.5], distanceFactor: 10 })
+
+        expect(lod.name).toBe('part')
+        expect(lod.position.x).toBe(5)
+        const distances = lod.levels.map((l) => l.distance)
+        expect(distances[0]).toBe(0)
+        expect(distances[1]).toBeCloseTo(10)
+        expect(distances[2]).toBeCloseTo(20)
+
+        const counts = lod.levels.map((l) => (l.object as THREE.Mesh).geometry.attributes.position.count)
+        const triangles = lod.levels.map((l, i) => {
+            const geometry = (l.object as THREE.Mesh).geometry
+            return (geometry.index ? geometry.index.count : counts[i]) / 3
+        })
+        expect(triangles[1]).toBeLessThan(triangles[0])
+        expect(triangles[2]).toBeLessThan(triangles[1])
+    })
+})
+
+describe('modelLod - Level chain', () => {
+    it('should resolve with the coarsest level and stream finer ones in', async () => {
+        const onLevelLoaded = vi.fn()
+        const load = delayedLoad('lod1.glb', (url) => url === 'lod1.glb' ? 4 : 16)
+
+        const root = await loadLODChain(['lod1.glb', 'lod0.glb'], load, { distanceFactor: 10, onLevelLoaded })
+        const lod = root.children[0] as THREE.LOD
+        expect(lod.isLOD).toBe(true)
+        expect(lod.levels).toHaveLength(1)
+
+        await flush()
+        expect(load).toHaveBeenCalledTimes(2)
+        expect(lod.levels[0].distance).toBe(0)
+        expect(lod.levels[1].distance).toBeCloseTo(10)
+        expect(lod.levels[0].object.position.x).toBe(0) // transform lives on the LOD
+        expect(onLevelLoaded).toHaveBeenCalledWith(0, root)
+    })
+
+    it('should stop streaming once aborted', async () => {
+        const controller = new AbortController()
+        const load = delayedLoad('lod2.glb', () => 4)
+
+        const root = await loadLODChain(['lod2.glb', 'lod1.glb', 'lod0.glb'], load, { signal: controller.signal })
+        controller.abort()
+        await flush()
+
+        expect(load).toHaveBeenCalledTimes(2)
+        expect((root.children[0] as THREE.LOD).levels).toHaveLength(1)
+    })
+})
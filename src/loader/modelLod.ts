@@ -0,0 +1,165 @@
+/**
+ * @file modelLod.ts
+ * @description
+ * Level-of-detail for loaded models: every mesh becomes a `THREE.LOD`, either with levels generated by
+ * geometry simplification or with levels streamed from a chain of pre-built model files.
+ *
+ * @best-practice
+ * - Prefer pre-built levels (`lod.urls`) for large assemblies: simplification runs on the main thread.
+ * - With `lod.urls` the coarsest file is returned first; finer files stream in and are matched by mesh name.
+ * - Switch distances scale with each mesh's bounding sphere, so small parts drop detail sooner than big ones.
+ */
+
+import * as THREE from 'three'
+
+export interface ModelLODOptions {
+  /** Generate levels by simplification: fraction of vertices kept per level, finest first (e.g. [0.5, 0.2]) */
+  ratios?: number[]
+  /**
+   * Pre-built coarser levels, coarsest first (e.g. ['model_lod2.glb', 'model_lod1.glb']);
+   * the URL passed to `loadModelByUrl` is the finest level. Takes precedence over `ratios`
+   */
+  urls?: string[]
+  /** Level n is shown beyond n × distanceFactor × bounding sphere radius of the mesh (default 8) */
+  distanceFactor?: number
+  /** Called each time a finer level from `urls` has streamed in (0 = finest) */
+  onLevelLoaded?: (level: number, object: THREE.Object3D) => void
+}
+
+const DEFAULT_DISTANCE_FACTOR = 8
+const _inverse = new THREE.Matrix4()
+
+/**
+ * Replace every mesh of `root` with a LOD whose coarser levels are simplified copies of the mesh
+ * - Skinned, instanced and multi-material meshes are left as they are
+ * @returns The created LOD objects
+ */
+export async function generateLODs(root: THREE.Object3D, options: ModelLODOptions): Promise<THREE.LOD[]> {
+  const ratios = (options.ratios ?? []).filter((r) => r > 0 && r < 1).sort((a, b) => b - a)
+  if (ratios.length === 0) return []
+
+  const { SimplifyModifier } = await import('three/examples/jsm/modifiers/SimplifyModifier.js')
+  const { mergeVertices } = await import('three/examples/jsm/utils/BufferGeometryUtils.js')
+  const modifier = new SimplifyModifier()
+  const factor = options.distanceFactor ?? DEFAULT_DISTANCE_FACTOR
+
+  root.updateMatrixWorld(true)
+  return collectLODMeshes(root).map(({ mesh }) => {
+    const radius = worldRadius(mesh)
+    const lod = wrapInLOD(mesh, 0)
+
+    // SimplifyModifier counts welded vertices
+    const welded = mergeVertices(mesh.geometry)
+    const vertexCount = welded.attributes.position.count
+    if (welded !== mesh.geometry) welded.dispose()
+
+    ratios.forEach((ratio, i) => {
+      if (vertexCount * ratio < 4) return
+      const level = new THREE.Mesh(modifier.modify(mesh.geometry, Math.floor(vertexCount * (1 - ratio))), mesh.material)
+      level.name = mesh.name
+      level.castShadow = mesh.castShadow
+      level.receiveShadow = mesh.receiveShadow
+      lod.addLevel(level, (i + 1) * factor * radius)
+    })
+    return lod
+  })
+}
+
+/**
+ * Load a chain of model files as LOD levels, coarsest first
+ * - Resolves as soon as the coarsest file is loaded; finer files are added to its LODs as they arrive
+ * - Meshes are matched across files by name (and order among equal names); unmatched meshes are ignored
+ * - Streaming stops silently once `signal` is aborted
+ * @param urls Level files, coarsest first, finest last
+ * @param load Loads one file
+ */
+export async function loadLODChain(
+  urls: string[],
+  load: (url: string, index: number) => Promise<THREE.Object3D>,
+  options: ModelLODOptions & { signal?: AbortSignal } = {}
+): Promise<THREE.Object3D> {
+  if (urls.length === 0) throw new Error('LOD chain requires at least one URL')
+
+  const factor = options.distanceFactor ?? DEFAULT_DISTANCE_FACTOR
+  const coarsestLevel = urls.length - 1
+  const root = await load(urls[0], 0)
+  root.updateMatrixWorld(true)
+
+  const lods = new Map<string, { lod: THREE.LOD, radius: number }>()
+  collectLODMeshes(root).forEach(({ mesh, key }) => {
+    const radius = worldRadius(mesh)
+    lods.set(key, { lod: wrapInLOD(mesh, coarsestLevel * factor * radius), radius })
+  })
+
+  const streamFinerLevels = async () => {
+    for (let i = 1; i < urls.length; i++) {
+      if (options.signal?.aborted) return
+      const level = coarsestLevel - i
+      let levelRoot: THREE.Object3D
+      try {
+        levelRoot = await load(urls[i], i)
+      } catch (e) {
+        if (!options.signal?.aborted) console.warn(`LOD level "${urls[i]}" failed to load`, e)
+        return
+      }
+      if (options.signal?.aborted) return
+      levelRoot.updateMatrixWorld(true)
+      collectLODMeshes(levelRoot).forEach(({ mesh, key }) => {
+        const target = lods.get(key)
+        if (!target) return
+        // Express the finer mesh relative to the coarse mesh, whose transform now lives on the LOD
+        mesh.matrix.premultiply(_inverse.copy(target.lod.matrix).invert())
+        mesh.matrix.decompose(mesh.position, mesh.quaternion, mesh.scale)
+        target.lod.addLevel(mesh, level * factor * target.radius)
+      })
+      options.onLevelLoaded?.(level, root)
+    }
+  }
+  void streamFinerLevels()
+
+  return root
+}
+
+/* ---------------------
+   Helpers
+   --------------------- */
+
+/** Meshes eligible for LOD, keyed by name + occurrence so levels of different files can be matched */
+function collectLODMeshes(root: THREE.Object3D): { mesh: THREE.Mesh, key: string }[] {
+  const seen = new Map<string, number>()
+  const result: { mesh: THREE.Mesh, key: string }[] = []
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh
+    if (!mesh.isMesh || !mesh.geometry) return
+    if ((mesh as any).isSkinnedMesh || (mesh as any).isInstancedMesh || Array.isArray(mesh.material)) return
+    if ((mesh.parent as THREE.LOD | null)?.isLOD) return
+    const n = seen.get(mesh.name) ?? 0
+    seen.set(mesh.name, n + 1)
+    result.push({ mesh, key: `${mesh.name}#${n}` })
+  })
+  return result
+}
+
+/** Bounding sphere radius of a mesh in the model's space */
+function worldRadius(mesh: THREE.Mesh): number {
+  if (!mesh.geometry.boundingSphere) mesh.geometry.computeBoundingSphere()
+  return mesh.geometry.boundingSphere!.clone().applyMatrix4(mesh.matrixWorld).radius
+}
+
+/** Put a LOD in place of the mesh (taking over its transform) and add the mesh as its first level */
+function wrapInLOD(mesh: THREE.Mesh, distance: number): THREE.LOD {
+  const lod = new THREE.LOD()
+  lod.name = mesh.name
+  lod.position.copy(mesh.position)
+  lod.quaternion.copy(mesh.quaternion)
+  lod.scale.copy(mesh.scale)
+  lod.updateMatrix()
+  mesh.parent?.add(lod)
+
+  mesh.position.set(0, 0, 0)
+  mesh.quaternion.identity()
+  mesh.scale.set(1, 1, 1)
+  mesh.updateMatrix()
+  lod.addLevel(mesh, distance)
+  return lod
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { normalizeModel, revertNormalization } from './modelNormalize'
+
+/** 200 x 100 x 400 mm part, Z-up, far from the origin */
+function supplierPart(): THREE.Group {
+    const root = new THREE.Group()
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(200, 100, 400), new THREE.MeshBasicMaterial())
+    mesh.position.set(5000, 3000, 1200)
+    root.add(mesh)
+    return root
+}
+
+function bounds(object: THREE.Object3D): THREE.Box3 {
+    object.updateMatrixWorld(true)
+    return new THREE.Box3().setFromObject(object)
+}
+
+describe('modelNormalize', () => {
+    it('should convert units and up axis and sit the model on the origin', () => {
+        const root = supplierPart()
+        normalizeModel(root, { units: 'millimeters', upAxis: 'z', recenter: 'bottom' })
+
+        const box = bounds(root)
+        const size = box.getSize(new THREE.Vector3())
+        // source Z (height) becomes Y
+        expect(size.x).toBeCloseTo(0.2)
+        expect(size.y).toBeCloseTo(0.4)
+        expect(size.z).toBeCloseTo(0.1)
+        expect(box.min.y).toBeCloseTo(0)
+        expect(box.getCenter(new THREE.Vector3()).x).toBeCloseTo(0)
+        expect(root.userData.units).toBe('meters')
+    })
+
+    it('should fit the largest dimension to a target size around the center', () => {
+        const root = supplierPart()
+        const record = normalizeModel(root, { fitSize: 2, recenter: 'center' })
+
+        const box = bounds(root)
+        expect(box.getSize(new THREE.Vector3()).z).toBeCloseTo(2)
+        expect(box.getCenter(new THREE.Vector3()).length()).toBeCloseTo(0)
+        expect(record.scale).toBeCloseTo(2 / 400)
+        expect(root.userData.units).toBeUndefined()
+    })
+
+    it('should record the transform so it can be reverted', () => {
+        const root = supplierPart()
+        root.position.set(1, 2, 3)
+        const before = bounds(root)
+
+        normalizeModel(root, { units: 'millimeters', upAxis: 'z', recenter: 'center' })
+        expect(root.userData.normalization.matrix).toHaveLength(16)
+        expect(revertNormalization(root)).toBe(true)
+
+        const after = bounds(root)
+        expect(after.min.distanceTo(before.min)).toBeLessThan(1e-6)
+        expect(after.max.distanceTo(before.max)).toBeLessThan(1e-6)
+        expect(root.userData.normalization).toBeUndefined()
+        expect(revertNormalization(root)).toBe(false)
+    })
+})
@@ -0,0 +1,106 @@
+/**
+ * @file modelNormalize.ts
+ * @description
+ * Normalizes supplier models to the viewer's conventions: meters, Y-up, near the origin and a known size,
+ * so camera fitting, default lights and the exploder work on them unchanged.
+ *
+ * @best-practice
+ * - Use through `loadModelByUrl(url, { normalize: { units: 'millimeters', upAxis: 'z', recenter: 'bottom' } })`.
+ * - Only the root transform changes; geometry and child transforms are untouched.
+ * - The applied matrix is kept on `userData.normalization`; `revertNormalization` restores the source frame (e.g. before export).
+ */
+
+import * as THREE from 'three'
+
+export type LengthUnit = 'meters' | 'centimeters' | 'millimeters' | 'inches' | 'feet'
+
+export interface NormalizeOptions {
+  /** Units of the source file, or meters per source unit; converted to meters */
+  units?: LengthUnit | number
+  /** Up axis of the source file; 'z' is rotated to Y-up (default 'y') */
+  upAxis?: 'y' | 'z'
+  /** Move the bounding-box center, or the center of its bottom face, to the origin */
+  recenter?: 'center' | 'bottom' | false
+  /** Scale uniformly so the largest dimension equals this size in meters (applied after `units`) */
+  fitSize?: number | null
+}
+
+/** Stored on `userData.normalization` */
+export interface NormalizationRecord {
+  /** Matrix premultiplied onto the root's transform (column-major) */
+  matrix: number[]
+  /** Total uniform scale applied */
+  scale: number
+  options: NormalizeOptions
+}
+
+const METERS_PER_UNIT: Record<LengthUnit, number> = {
+  meters: 1,
+  centimeters: 0.01,
+  millimeters: 0.001,
+  inches: 0.0254,
+  feet: 0.3048,
+}
+
+/**
+ * Apply normalization to the root transform of a model that is not yet part of a scene
+ * - Order: units, up axis, fit size, recenter
+ * - Normalizing an already normalized model reverts the previous normalization first
+ */
+export function normalizeModel(object: THREE.Object3D, options: NormalizeOptions): NormalizationRecord {
+  revertNormalization(object)
+
+  const unitScale = typeof options.units === 'number' ? options.units : METERS_PER_UNIT[options.units ?? 'meters']
+  const matrix = new THREE.Matrix4().makeScale(unitScale, unitScale, unitScale)
+  if (options.upAxis === 'z') matrix.premultiply(new THREE.Matrix4().makeRotationX(-Math.PI / 2))
+  let scale = unitScale
+
+  applyRootMatrix(object, matrix)
+
+  if (options.fitSize) {
+    const size = new THREE.Box3().setFromObject(object).getSize(new THREE.Vector3())
+    const extent = Math.max(size.x, size.y, size.z)
+    if (extent > 0) {
+      const fit = options.fitSize / extent
+      const fitMatrix = new THREE.Matrix4().makeScale(fit, fit, fit)
+      applyRootMatrix(object, fitMatrix)
+      matrix.premultiply(fitMatrix)
+      scale *= fit
+    }
+  }
+
+  if (options.recenter) {
+    const box = new THREE.Box3().setFromObject(object)
+    if (!box.isEmpty()) {
+      const anchor = box.getCenter(new THREE.Vector3())
+      if (options.recenter === 'bottom') anchor.y = box.min.y
+      const moveMatrix = new THREE.Matrix4().makeTranslation(-anchor.x, -anchor.y, -anchor.z)
+      applyRootMatrix(object, moveMatrix)
+      matrix.premultiply(moveMatrix)
+    }
+  }
+
+  const record: NormalizationRecord = { matrix: matrix.toArray(), scale, options: { ...options } }
+  object.userData.normalization = record
+  if (options.units !== undefined && !options.fitSize) object.userData.units = 'meters'
+  return record
+}
+
+/**
+ * Undo `normalizeModel` on the root transform; returns false when the model was not normalized
+ */
+export function revertNormalization(object: THREE.Object3D): boolean {
+  const record = object.userData?.normalization as NormalizationRecord | undefined
+  if (!record) return false
+  applyRootMatrix(object, new THREE.Matrix4().fromArray(record.matrix).invert())
+  delete object.userData.normalization
+  if (record.options.units !== undefined && !record.options.fitSize) delete object.userData.units
+  return true
+}
+
+function applyRootMatrix(object: THREE.Object3D, matrix: THREE.Matrix4) {
+  object.updateMatrix()
+  object.matrix.premultiply(matrix)
+  object.matrix.decompose(object.position, object.quaternion, object.scale)
+  object.updateMatrixWorld(true)
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { MemoryByteStorage, PersistentModelCache } from './persistentCache'
+
+const bytes = (n: number) => new ArrayBuffer(n)
+
+describe('PersistentModelCache', () => {
+    it('should store and read bytes by URL and version', async () => {
+        const cache = new PersistentModelCache({ storage: new MemoryByteStorage() })
+        await cache.write('a.glb', 'v1', bytes(10), { etag: '"abc"' })
+
+        expect(await cache.getEntry('a.glb', 'v2')).toBeUndefined()
+        const entry = await cache.getEntry('a.glb', 'v1')
+        expect(entry).toMatchObject({ url: 'a.glb', version: 'v1', etag: '"abc"', size: 10 })
+        expect((await cache.read(entry!))!.byteLength).toBe(10)
+    })
+
+    it('should evict least recently used entries over the byte budget', async () => {
+        const storage = new MemoryByteStorage()
+        const cache = new PersistentModelCache({ storage, maxBytes: 25 })
+
+        await cache.write('a.glb', null, bytes(10))
+        await new Promise((r) => setTimeout(r, 2))
+        await cache.write('b.glb', null, bytes(10))
+        await new Promise((r) => setTimeout(r, 2))
+        await cache.read((await cache.getEntry('a.glb'))!)
+        await cache.write('c.glb', null, bytes(10))
+
+        expect(await cache.getEntry('a.glb')).toBeDefined()
+        expect(await cache.getEntry('b.glb')).toBeUndefined()
+        expect(await cache.getStats()).toEqual({ entries: 2, bytes: 20 })
+    })
+
+    it('should skip files larger than the budget and delete all versions of a URL', async () => {
+        const cache = new PersistentModelCache({ storage: new MemoryByteStorage(), maxBytes: 15 })
+        await cache.write('huge.glb', null, bytes(20))
+        await cache.write('a.glb', 'v1', bytes(5))
+        await cache.write('a.glb', 'v2', bytes(5))
+
+        expect(await cache.getEntry('huge.glb')).toBeUndefined()
+        await cache.delete('a.glb')
+        expect((await cache.getStats()).entries).toBe(0)
+    })
+})
@@ -0,0 +1,263 @@
+/**
+ * @file persistentCache.ts
+ * @description
+ * Opt-in persistent cache of downloaded model bytes (survives page reloads), used by `loadModelByUrl`.
+ * Backed by IndexedDB by default, or by any `ByteStorageAdapter` (e.g. `MemoryByteStorage` in tests).
+ *
+ * @best-practice
+ * - Enable once: `setLoaderConfig({ persistentCache: new PersistentModelCache({ maxBytes: 2e9 }) })`.
+ * - Pass `cacheVersion` to `loadModelByUrl` when you know the model version: hits then need no request at all.
+ * - Without a version, cached bytes are revalidated with the server's ETag (`If-None-Match`, 304).
+ *   Cross-origin servers must allow the `If-None-Match` header (CORS preflight).
+ * - Storage failures (quota, private mode) never fail a load: the model is simply downloaded.
+ */
+
+/** Metadata of one cached download */
+export interface ByteCacheEntry {
+  /** URL + version */
+  key: string
+  url: string
+  version: string | null
+  etag: string | null
+  contentType: string | null
+  size: number
+  storedAt: number
+  lastAccess: number
+}
+
+/** Storage backend for `PersistentModelCache` */
+export interface ByteStorageAdapter {
+  getEntry(key: string): Promise<ByteCacheEntry | undefined>
+  getData(key: string): Promise<ArrayBuffer | undefined>
+  put(entry: ByteCacheEntry, data: ArrayBuffer): Promise<void>
+  /** Update metadata only (e.g. lastAccess) */
+  updateEntry(entry: ByteCacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  entries(): Promise<ByteCacheEntry[]>
+  clear(): Promise<void>
+}
+
+/**
+ * In-memory storage adapter (tests, or a per-session cache without IndexedDB)
+ */
+export class MemoryByteStorage implements ByteStorageAdapter {
+  private meta = new Map<string, ByteCacheEntry>()
+  private data = new Map<string, ArrayBuffer>()
+
+  async getEntry(key: string) { return this.meta.get(key) }
+  async getData(key: string) { return this.data.get(key) }
+  async put(entry: ByteCacheEntry, data: ArrayBuffer) {
+    this.meta.set(entry.key, { ...entry })
+    this.data.set(entry.key, data)
+  }
+  async updateEntry(entry: ByteCacheEntry) {
+    if (this.meta.has(entry.key)) this.meta.set(entry.key, { ...entry })
+  }
+  async delete(key: string) {
+    this.meta.delete(key)
+    this.data.delete(key)
+  }
+  async entries() { return Array.from(this.meta.values()) }
+  async clear() {
+    this.meta.clear()
+    this.data.clear()
+  }
+}
+
+/**
+ * IndexedDB storage adapter
+ * Metadata and bytes live in separate object stores so touching an entry does not rewrite the bytes.
+ */
+export class IndexedDBByteStorage implements ByteStorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(private dbName = 'three-model-render-cache') { }
+
+  async getEntry(key: string) {
+    return this.request<ByteCacheEntry | undefined>('entries', 'readonly', (s) => s.get(key))
+  }
+
+  async getData(key: string) {
+    return this.request<ArrayBuffer | undefined>('data', 'readonly', (s) => s.get(key))
+  }
+
+  async put(entry: ByteCacheEntry, data: ArrayBuffer) {
+    const db = await this.open()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(['entries', 'data'], 'readwrite')
+      tx.objectStore('data').put(data, entry.key)
+      tx.objectStore('entries').put(entry)
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  async updateEntry(entry: ByteCacheEntry) {
+    await this.request('entries', 'readwrite', (s) => s.put(entry))
+  }
+
+  async delete(key: string) {
+    const db = await this.open()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(['entries', 'data'], 'readwrite')
+      tx.objectStore('data').delete(key)
+      tx.objectStore('entries').delete(key)
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  }
+
+  async entries() {
+    return this.request<ByteCacheEntry[]>('entries', 'readonly', (s) => s.getAll())
+  }
+
+  async clear() {
+    const db = await this.open()
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(['entries', 'data'], 'readwrite')
+      tx.objectStore('data').clear()
+      tx.objectStore('entries').clear()
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available'))
+        const req = indexedDB.open(this.dbName, 1)
+        req.onupgradeneeded = () => {
+          const db = req.result
+          if (!db.objectStoreNames.contains('entries')) db.createObjectStore('entries', { keyPath: 'key' })
+          if (!db.objectStoreNames.contains('data')) db.createObjectStore('data')
+        }
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+      })
+      // allow a later retry if opening failed
+      this.dbPromise.catch(() => { this.dbPromise = null })
+    }
+    return this.dbPromise
+  }
+
+  private async request<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open()
+    return new Promise<T>((resolve, reject) => {
+      const req = fn(db.transaction(store, mode).objectStore(store))
+      req.onsuccess = () => resolve(req.result as T)
+      req.onerror = () => reject(req.error)
+    })
+  }
+}
+
+export interface PersistentCacheOptions {
+  /** Storage backend (default: IndexedDB when available, else in-memory) */
+  storage?: ByteStorageAdapter
+  /** Maximum total bytes kept (default 1 GiB) */
+  maxBytes?: number
+  /** Maximum number of cached files (default Infinity) */
+  maxEntries?: number
+  /** Which entries go first when over budget: least recently used (default) or oldest stored */
+  evictionPolicy?: 'lru' | 'fifo'
+}
+
+export interface PersistentCacheStats {
+  entries: number
+  bytes: number
+}
+
+/**
+ * PersistentModelCache
+ * Stores downloaded model bytes keyed by URL + version, enforcing size limits after each write.
+ */
+export class PersistentModelCache {
+  readonly storage: ByteStorageAdapter
+  private maxBytes: number
+  private maxEntries: number
+  private evictionPolicy: 'lru' | 'fifo'
+
+  constructor(options: PersistentCacheOptions = {}) {
+    this.storage = options.storage
+      ?? (typeof indexedDB !== 'undefined' ? new IndexedDBByteStorage() : new MemoryByteStorage())
+    this.maxBytes = options.maxBytes ?? 1024 * 1024 * 1024
+    this.maxEntries = options.maxEntries ?? Infinity
+    this.evictionPolicy = options.evictionPolicy ?? 'lru'
+  }
+
+  /** Storage key of a URL + version */
+  static keyOf(url: string, version?: string | null): string {
+    return version ? `${url}#v=${version}` : url
+  }
+
+  /** Cached metadata for a URL + version, if any */
+  async getEntry(url: string, version?: string | null): Promise<ByteCacheEntry | undefined> {
+    return this.storage.getEntry(PersistentModelCache.keyOf(url, version))
+  }
+
+  /** Read cached bytes and mark the entry as used */
+  async read(entry: ByteCacheEntry): Promise<ArrayBuffer | undefined> {
+    const data = await this.storage.getData(entry.key)
+    if (!data) {
+      await this.storage.delete(entry.key)
+      return undefined
+    }
+    await this.storage.updateEntry({ ...entry, lastAccess: Date.now() })
+    return data
+  }
+
+  /** Store downloaded bytes, then evict entries over budget */
+  async write(
+    url: string,
+    version: string | null | undefined,
+    data: ArrayBuffer,
+    meta: { etag?: string | null; contentType?: string | null } = {}
+  ): Promise<void> {
+    if (data.byteLength > this.maxBytes) return
+    const now = Date.now()
+    const entry: ByteCacheEntry = {
+      key: PersistentModelCache.keyOf(url, version),
+      url,
+      version: version ?? null,
+      etag: meta.etag ?? null,
+      contentType: meta.contentType ?? null,
+      size: data.byteLength,
+      storedAt: now,
+      lastAccess: now,
+    }
+    await this.storage.put(entry, data)
+    await this.evict(entry.key)
+  }
+
+  /** Remove every cached version of a URL */
+  async delete(url: string): Promise<void> {
+    const all = await this.storage.entries()
+    await Promise.all(all.filter((e) => e.url === url).map((e) => this.storage.delete(e.key)))
+  }
+
+  /** Remove everything */
+  async clear(): Promise<void> {
+    await this.storage.clear()
+  }
+
+  async getStats(): Promise<PersistentCacheStats> {
+    const all = await this.storage.entries()
+    return { entries: all.length, bytes: all.reduce((sum, e) => sum + e.size, 0) }
+  }
+
+  private async evict(keepKey: string) {
+    const field = this.evictionPolicy === 'lru' ? 'lastAccess' : 'storedAt'
+    const all = (await this.storage.entries()).sort((a, b) => a[field] - b[field])
+    let bytes = all.reduce((sum, e) => sum + e.size, 0)
+    let count = all.length
+
+    for (const e of all) {
+      if (bytes <= this.maxBytes && count <= this.maxEntries) break
+      if (e.key === keepKey) continue
+      await this.storage.delete(e.key)
+      bytes -= e.size
+      count--
+    }
+  }
+}
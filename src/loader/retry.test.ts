@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getMirrorUrls, HttpStatusError, isRetryableError, withRetry } from './retry'
+
+describe('getMirrorUrls', () => {
+    it('should map absolute and relative URLs onto mirror bases', () => {
+        expect(getMirrorUrls('https://cdn.a.com/models/x.glb?v=1', ['https://cdn.b.com/', 'https://cdn.c.com/backup']))
+            .toEqual([
+                'https://cdn.a.com/models/x.glb?v=1',
+                'https://cdn.b.com/models/x.glb?v=1',
+                'https://cdn.c.com/backup/models/x.glb?v=1',
+            ])
+        expect(getMirrorUrls('models/x.glb', ['https://cdn.b.com'])).toEqual(['models/x.glb', 'https://cdn.b.com/models/x.glb'])
+    })
+})
+
+describe('isRetryableError', () => {
+    it('should retry transient statuses and network errors only', () => {
+        expect(isRetryableError(new HttpStatusError('x', 503))).toBe(true)
+        expect(isRetryableError(new HttpStatusError('x', 429))).toBe(true)
+        expect(isRetryableError(new HttpStatusError('x', 404))).toBe(false)
+        expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true)
+        expect(isRetryableError(new DOMException('aborted', 'AbortError'))).toBe(false)
+    })
+})
+
+describe('withRetry', () => {
+    it('should retry with exponential backoff and report every attempt', async () => {
+        const onAttempt = vi.fn()
+        const task = vi.fn()
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockRejectedValueOnce(new HttpStatusError('a.glb', 502))
+            .mockResolvedValueOnce('ok')
+
+        const result = await withRetry('a.glb', task, { policy: { maxAttempts: 3, baseDelay: 1, factor: 2 }, onAttempt })
+
+        expect(result).toBe('ok')
+        expect(onAttempt.mock.calls.map(([a]) => [a.attempt, a.success, a.nextDelay])).toEqual([
+            [1, false, 1],
+            [2, false, 2],
+            [3, true, undefined],
+        ])
+    })
+
+    it('should fall back to mirrors when the primary URL keeps failing', async () => {
+        const task = vi.fn(async (url: string) => {
+            if (url.startsWith('https://primary')) throw new HttpStatusError(url, 404)
+            return url
+        })
+
+        const result = await withRetry('https://primary.com/a.glb', task, {
+            policy: { maxAttempts: 3, baseDelay: 1 },
+            mirrors: ['https://mirror.com'],
+        })
+
+        expect(result).toBe('https://mirror.com/a.glb')
+        // 404 is not retried on the same host
+        expect(task).toHaveBeenCalledTimes(2)
+    })
+
+    it('should throw the last error when every attempt fails', async () => {
+        const task = vi.fn().mockRejectedValue(new HttpStatusError('a.glb', 500))
+        await expect(withRetry('a.glb', task, { policy: { maxAttempts: 2, baseDelay: 1 } })).rejects.toBeInstanceOf(HttpStatusError)
+        expect(task).toHaveBeenCalledTimes(2)
+    })
+})
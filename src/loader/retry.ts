@@ -0,0 +1,157 @@
+/**
+ * @file retry.ts
+ * @description
+ * Retry with exponential backoff and mirror fallback, shared by the model loader and skybox loaders.
+ * The policy lives in the global loader config (`setLoaderConfig({ retry, mirrors, onDownloadAttempt })`).
+ *
+ * @best-practice
+ * - Set `retry.maxAttempts` to 3-5 on unreliable networks (plant-floor Wi-Fi).
+ * - List mirrors in order of preference; each one gets the full attempt budget after the primary URL.
+ * - Log attempts with `onDownloadAttempt` to spot flaky hosts.
+ * - Aborts are never retried.
+ */
+
+export interface RetryPolicy {
+  /** Attempts per URL, including the first one (default 1 = no retry) */
+  maxAttempts: number
+  /** Delay before the first retry in ms (default 500) */
+  baseDelay: number
+  /** Upper bound of a single delay in ms (default 8000) */
+  maxDelay: number
+  /** Backoff multiplier (default 2) */
+  factor: number
+  /** Decide whether an error is worth retrying (default: network errors, 408, 425, 429 and 5xx) */
+  shouldRetry?: (error: any, attempt: number) => boolean
+}
+
+/** Reported after every attempt */
+export interface DownloadAttempt {
+  /** URL requested by this attempt (primary or mirror) */
+  url: string
+  /** Original URL */
+  originalUrl: string
+  /** 1-based attempt number on this URL */
+  attempt: number
+  /** 0 = primary URL, 1.. = mirrors */
+  sourceIndex: number
+  success: boolean
+  error?: any
+  /** Delay before the next attempt in ms (undefined when giving up on this URL) */
+  nextDelay?: number
+}
+
+export type DownloadAttemptCallback = (attempt: DownloadAttempt) => void
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelay: 500,
+  maxDelay: 8000,
+  factor: 2,
+}
+
+/**
+ * Error for non-2xx HTTP responses, carrying the status so retry policies can inspect it
+ */
+export class HttpStatusError extends Error {
+  readonly url: string
+  readonly status: number
+
+  constructor(url: string, status: number, statusText = '') {
+    super(`fetch for "${url}" responded with ${status}: ${statusText}`)
+    this.name = 'HttpStatusError'
+    this.url = url
+    this.status = status
+  }
+}
+
+/** Default retry decision: retry network failures and transient HTTP statuses, never aborts */
+export function isRetryableError(error: any): boolean {
+  if (!error) return true
+  if (error.name === 'AbortError') return false
+  // HttpStatusError, or three.js HttpError carrying the Response
+  const status: number | undefined = error.status ?? error.response?.status
+  if (typeof status === 'number') return status === 408 || status === 425 || status === 429 || status >= 500
+  // fetch TypeError, image load error events, etc.
+  return true
+}
+
+/**
+ * Build the ordered list of URLs to try: the URL itself, then the same path on each mirror base.
+ * Absolute URLs keep their path + query; relative ones are appended to the mirror base.
+ * @example getMirrorUrls('https://cdn.a.com/m/x.glb', ['https://cdn.b.com']) // [..., 'https://cdn.b.com/m/x.glb']
+ */
+export function getMirrorUrls(url: string, mirrors: string[] = []): string[] {
+  if (mirrors.length === 0 || /^(data|blob):/i.test(url)) return [url]
+
+  let path = url
+  const absolute = /^[a-z][a-z\d+\-.]*:\/\/[^/]*(.*)$/i.exec(url)
+  if (absolute) path = absolute[1] || '/'
+
+  const mirrored = mirrors.map((base) => base.replace(/\/+$/, '') + '/' + path.replace(/^\/+/, ''))
+  return [url, ...mirrored.filter((m) => m !== url)]
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export interface RetryOptions {
+  policy?: Partial<RetryPolicy>
+  mirrors?: string[]
+  onAttempt?: DownloadAttemptCallback
+  /** Stops retrying (and waiting) once aborted */
+  signal?: AbortSignal
+}
+
+/**
+ * Run `task` against the URL and its mirrors until it succeeds
+ * @param url Original URL
+ * @param task Performs one attempt against the given URL
+ * @returns The first successful result; throws the last error when every attempt failed
+ */
+export async function withRetry<T>(url: string, task: (url: string) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.policy }
+  const shouldRetry = policy.shouldRetry ?? isRetryableError
+  const urls = getMirrorUrls(url, options.mirrors)
+  const maxAttempts = Math.max(1, policy.maxAttempts)
+  let lastError: any
+
+  for (let sourceIndex = 0; sourceIndex < urls.length; sourceIndex++) {
+    const attemptUrl = urls[sourceIndex]
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        const result = await task(attemptUrl)
+        options.onAttempt?.({ url: attemptUrl, originalUrl: url, attempt, sourceIndex, success: true })
+        return result
+      } catch (error) {
+        lastError = error
+        const aborted = !!options.signal?.aborted
+        const retryable = !aborted && shouldRetry(error, attempt)
+        const nextDelay = retryable && attempt < maxAttempts
+          ? Math.min(policy.maxDelay, policy.baseDelay * Math.pow(policy.factor, attempt - 1))
+          : undefined
+
+        options.onAttempt?.({ url: attemptUrl, originalUrl: url, attempt, sourceIndex, success: false, error, nextDelay })
+
+        if (aborted) throw error
+        // Not retryable (e.g. 404): same URL will not get better, move on to the next mirror
+        if (nextDelay === undefined) break
+        await sleep(nextDelay, options.signal)
+      }
+    }
+  }
+
+  throw lastError
+}
@@ -7,9 +7,14 @@
  * - Use `loadSkybox` for a unified interface.
  * - Supports internal caching to avoid reloading the same skybox.
  * - Can set background and environment map independently.
+ * - Equirect downloads follow the global retry policy and mirrors (`setLoaderConfig`).
+ * - URLs go through `resolveUrl` / `basePath`, requests carry the configured headers and credentials
+ *   (images are then fetched and decoded from a Blob, since `<img>` requests cannot send headers).
  */
 
 import * as THREE from 'three'
+import { applyRequestConfig, getLoaderConfig, RequestCubeTextureLoader, RequestTextureLoader, resolveAssetUrl } from './config'
+import { withRetry } from './retry'
 
 /**
  * Skybox Loader Utility
@@ -90,10 +95,10 @@ export async function loadCubeSkybox(
   }
 
   // Load cube texture
-  const loader = new THREE.CubeTextureLoader()
+  const loader = applyRequestConfig(new RequestCubeTextureLoader())
   const texture = await new Promise<THREE.CubeTexture>((resolve, reject) => {
     loader.load(
-      paths,
+      paths.map(resolveAssetUrl),
       (tex) => resolve(tex),
       undefined,
       (err) => reject(err)
@@ -188,27 +193,29 @@ export async function loadEquirectSkybox(
   }
 
   // Dynamically import RGBELoader (for .hdr/.exr), if loading normal jpg/png directly use TextureLoader
-  const isHDR = /\.hdr$|\.exr$/i.test(url)
+  const assetUrl = resolveAssetUrl(url)
+  const isHDR = /\.hdr$|\.exr$/i.test(assetUrl.replace(/[?#].*$/, ''))
   let hdrTexture: THREE.Texture
 
   if (isHDR) {
     const { RGBELoader } = await import('three/examples/jsm/loaders/RGBELoader.js')
-    hdrTexture = await new Promise<THREE.Texture>((resolve, reject) => {
-      new RGBELoader().load(
-        url,
+    const rgbeLoader = applyRequestConfig(new RGBELoader())
+    hdrTexture = await loadWithRetry(assetUrl, (u) => new Promise<THREE.Texture>((resolve, reject) => {
+      rgbeLoader.load(
+        u,
         (tex) => resolve(tex),
         undefined,
         (err) => reject(err)
       )
-    })
+    }))
     // RGBE textures typically use LinearEncoding
     hdrTexture.encoding = THREE.LinearEncoding
   } else {
     // ordinary image - use TextureLoader
-    const loader = new THREE.TextureLoader()
-    hdrTexture = await new Promise<THREE.Texture>((resolve, reject) => {
-      loader.load(url, (t) => resolve(t), undefined, (err) => reject(err))
-    })
+    const loader = applyRequestConfig(new RequestTextureLoader())
+    hdrTexture = await loadWithRetry(assetUrl, (u) => new Promise<THREE.Texture>((resolve, reject) => {
+      loader.load(u, (t) => resolve(t), undefined, (err) => reject(err))
+    }))
     if (options.useSRGBEncoding) hdrTexture.encoding = THREE.sRGBEncoding
   }
 
@@ -255,6 +262,16 @@ export async function loadEquirectSkybox(
   return handle
 }
 
+/** Run a texture load with the global retry policy and mirrors */
+function loadWithRetry<T>(url: string, load: (url: string) => Promise<T>): Promise<T> {
+  const config = getLoaderConfig()
+  return withRetry(url, load, {
+    policy: config.retry,
+    mirrors: config.mirrors,
+    onAttempt: config.onDownloadAttempt ?? undefined,
+  })
+}
+
 /* -------------------------
    Public General loadSkybox Interface
    ------------------------- */
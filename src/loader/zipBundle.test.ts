@@ -0,0 +1,79 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import * as THREE from 'three'
+import * as fflate from 'three/examples/jsm/libs/fflate.module.js'
+import { loadModelFromData } from './modelLoader'
+
+const { zipSync, strToU8 } = fflate as unknown as {
+    zipSync(files: Record<string, Uint8Array>): Uint8Array
+    strToU8(text: string): Uint8Array
+}
+
+function zip(files: Record<string, string | Uint8Array>): Blob {
+    const entries: Record<string, Uint8Array> = {}
+    Object.entries(files).forEach(([path, content]) => {
+        entries[path] = typeof content === 'string' ? strToU8(content) : content
+    })
+    return new Blob([zipSync(entries) as Uint8Array<ArrayBuffer>])
+}
+
+/** .gltf with one triangle whose positions live in an external scene.bin */
+function gltfFiles(): Record<string, string | Uint8Array> {
+    const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0])
+    const gltf = {
+        asset: { version: '2.0' },
+        scenes: [{ nodes: [0] }],
+        nodes: [{ mesh: 0, name: 'triangle' }],
+        meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+        accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }],
+        bufferViews: [{ buffer: 0, byteLength: 36 }],
+        buffers: [{ uri: 'scene.bin', byteLength: 36 }],
+    }
+    return {
+        'export/scene.gltf': JSON.stringify(gltf),
+        'export/scene.bin': new Uint8Array(positions.buffer),
+        'export/readme.txt': 'supplier notes',
+    }
+}
+
+describe('zipBundle', () => {
+    // FileLoader reports fetch progress with the DOM ProgressEvent, which Node lacks
+    beforeAll(() => {
+        vi.stubGlobal('ProgressEvent', class extends Event {
+            constructor(type: string, public init: Record<string, unknown> = {}) {
+                super(type)
+            }
+        })
+    })
+
+    afterAll(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('should load a .gltf bundle resolving its .bin from the zip', async () => {
+        const file = new File([zip(gltfFiles())], 'pump.zip')
+        const model = await loadModelFromData(file)
+
+        const mesh = model.getObjectByName('triangle') as THREE.Mesh
+        expect(mesh.geometry.attributes.position.count).toBe(3)
+        expect(mesh.geometry.attributes.position.getX(1)).toBe(1)
+    })
+
+    it('should detect a zip from its bytes and give OBJ its MTL materials', async () => {
+        const bundle = zip({
+            'part.obj': 'mtllib part.mtl\nv 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl red_paint\nf 1 2 3\n',
+            'part.mtl': 'newmtl red_paint\nKd 1 0 0\n',
+        })
+        const model = await loadModelFromData(bundle)
+
+        const mesh = model.children[0] as THREE.Mesh
+        const material = mesh.material as THREE.MeshPhongMaterial
+        expect(material.name).toBe('red_paint')
+        expect(material.color.getHex()).toBe(0xff0000)
+    })
+
+    it('should fail clearly when the zip holds no model', async () => {
+        await expect(loadModelFromData(zip({ 'notes.txt': 'nothing here' }), { format: 'zip' }))
+            .rejects.toThrow('Zip bundle contains no supported model file (entries: notes.txt)')
+    })
+})
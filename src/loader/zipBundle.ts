@@ -0,0 +1,130 @@
+/**
+ * @file zipBundle.ts
+ * @description
+ * In-memory zip bundles for multi-file assets (`.gltf` + `.bin` + textures, `.obj` + `.mtl` + textures):
+ * entries are unpacked with fflate and served to the loaders through a LoadingManager URL modifier.
+ *
+ * @best-practice
+ * - Load bundles like any model: `loadModelByUrl('pump.zip')` or `loadModelFromData(zipFile)`.
+ * - The main file is picked by format (glTF first, then GLB, FBX, OBJ...); set `bundleEntry` when a zip holds several models.
+ * - Resources are matched by path relative to the main file, then by full path, then by file name (flattened exports).
+ * - Entry URLs are Blob URLs, released once the load has finished with them.
+ */
+
+import * as THREE from 'three'
+import { getUrlExtension } from './formatDetection'
+
+/** fflate as bundled with three (its typings point to the npm package, which is not a dependency) */
+type Fflate = { unzipSync(data: Uint8Array): Record<string, Uint8Array<ArrayBuffer>> }
+
+/** Preferred main-file formats, most specific first */
+const ENTRY_PRIORITY = ['gltf', 'glb', 'fbx', 'obj', 'dae', '3ds', 'wrl', '3mf', 'usdz', 'ply', 'stl', 'pcd', 'xyz', 'pts']
+
+export interface ZipBundle {
+  /** Path of the main model file inside the zip */
+  entry: string
+  /** Format of the main model file */
+  format: string
+  /** Bytes of the main model file */
+  data: ArrayBuffer
+  /** Manager resolving relative resource URLs to the zip entries, falling back to `parent` */
+  manager: THREE.LoadingManager
+  /** Release the entry URLs once the loaders are idle (call after parsing) */
+  release(): void
+}
+
+/**
+ * Unpack a zip bundle and prepare its main file
+ * @param data Zip bytes
+ * @param parent Manager of the current load (its URL modifier still applies to resources outside the zip)
+ * @param options `entry` selects the main file; `isFormatSupported` filters candidates
+ */
+export async function openZipBundle(
+  data: ArrayBuffer,
+  parent: THREE.LoadingManager,
+  options: { entry?: string | null, isFormatSupported?: (format: string) => boolean } = {}
+): Promise<ZipBundle> {
+  const { unzipSync } = (await import('three/examples/jsm/libs/fflate.module.js')) as unknown as Fflate
+  const files = unzipSync(new Uint8Array(data))
+  const paths = Object.keys(files).filter((path) => !path.endsWith('/') && !path.startsWith('__MACOSX/'))
+
+  const entry = options.entry ? findPath(paths, options.entry) : pickEntry(paths, options.isFormatSupported)
+  if (!entry) {
+    throw new Error(options.entry
+      ? `Zip bundle has no entry named ${options.entry}`
+      : `Zip bundle contains no supported model file (entries: ${paths.join(', ') || 'none'})`)
+  }
+
+  const base = entry.substring(0, entry.lastIndexOf('/') + 1)
+  const urls = new Map<string, string>()
+  const byName = new Map<string, string>()
+  const created: string[] = []
+  paths.forEach((path) => {
+    const url = URL.createObjectURL(new Blob([files[path]]))
+    created.push(url)
+    urls.set(path, url)
+    if (path.startsWith(base)) urls.set(path.substring(base.length), url)
+    const name = path.substring(path.lastIndexOf('/') + 1)
+    if (!byName.has(name)) byName.set(name, url)
+  })
+
+  const manager = new THREE.LoadingManager()
+  manager.setURLModifier((url) => {
+    // absolute URLs (http, data, blob) are not zip entries
+    if (/^[a-z][a-z0-9+.-]*:/i.test(url)) return parent.resolveURL(url)
+    const key = normalizePath(url)
+    return urls.get(key) ?? byName.get(key.substring(key.lastIndexOf('/') + 1)) ?? parent.resolveURL(url)
+  })
+
+  // loaders may still fetch textures after parsing (MTL): release once the manager is idle
+  let loading = false
+  let parsed = false
+  let released = false
+  const revoke = () => {
+    if (released) return
+    released = true
+    created.forEach((url) => URL.revokeObjectURL(url))
+  }
+  manager.onStart = () => { loading = true }
+  manager.onLoad = () => {
+    loading = false
+    if (parsed) revoke()
+  }
+
+  const bytes = files[entry]
+  return {
+    entry,
+    format: getUrlExtension(entry),
+    data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+    manager,
+    release() {
+      parsed = true
+      if (!loading) revoke()
+    },
+  }
+}
+
+/** Resource URL as written in the model file -> zip path ('./a%20b.png' -> 'a b.png') */
+function normalizePath(url: string): string {
+  let path = url.split('#')[0].split('?')[0]
+  try {
+    path = decodeURIComponent(path)
+  } catch { }
+  return path.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/^\/+/, '')
+}
+
+function findPath(paths: string[], wanted: string): string | undefined {
+  const target = normalizePath(wanted)
+  return paths.find((p) => p === target) ?? paths.find((p) => p.endsWith(`/${target}`))
+}
+
+/** Highest-priority format; the shallowest path wins between files of the same format */
+function pickEntry(paths: string[], isFormatSupported: (format: string) => boolean = () => true): string | undefined {
+  const depth = (path: string) => path.split('/').length
+  for (const format of ENTRY_PRIORITY) {
+    if (!isFormatSupported(format)) continue
+    const candidates = paths.filter((p) => getUrlExtension(p) === format).sort((a, b) => depth(a) - depth(b))
+    if (candidates.length) return candidates[0]
+  }
+  return undefined
+}